@@ -1,9 +1,20 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import { enableMockApi, resetMockDb } from './mocks';
 
-test('renders learn react link', () => {
+beforeAll(() => {
+  jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  enableMockApi();
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  resetMockDb();
+});
+
+test('renders the home page for anonymous visitors', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(await screen.findByText('Welcome to Wanderlust Travel')).toBeInTheDocument();
+  expect(await screen.findByRole('link', { name: 'Login' })).toBeInTheDocument();
 });
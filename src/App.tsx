@@ -3,12 +3,18 @@ import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import OperatorDashboard from './pages/OperatorDashboard';
 import UserCenter from './pages/UserCenter';
 import HotelDetail from './pages/HotelDetail';
+import AdminConsole from './pages/AdminConsole';
 import { AppBar, Toolbar, Typography, Button, Box, CircularProgress } from '@mui/material';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import ProtectedRoute, { PublicRoute } from './components/ProtectedRoute';
+import Can from './components/Can';
+import EmailVerificationBanner from './components/EmailVerificationBanner';
 
 const Navbar: React.FC = () => {
   const { user, loading, logout } = useAuth();
@@ -25,9 +31,14 @@ const Navbar: React.FC = () => {
             <CircularProgress size={20} color="inherit" sx={{ ml: 2 }} />
           ) : user ? (
             <>
-              {user.role === 'operator' && <Button color="inherit" component={Link} to="/operator">Operator Dashboard</Button>}
+              <Can permission="dashboard:access">
+                <Button color="inherit" component={Link} to="/operator">Operator Dashboard</Button>
+              </Can>
+              <Can permission="user:manage">
+                <Button color="inherit" component={Link} to="/admin">Admin</Button>
+              </Can>
               <Button color="inherit" component={Link} to="/user">User Center</Button>
-              <Typography variant="body1" sx={{ mx: 2, display: 'inline' }}>{user.email}</Typography>
+              <Typography variant="body1" sx={{ mx: 2, display: 'inline' }}>{user.displayName || user.email}</Typography>
               <Button color="inherit" onClick={logout}>Logout</Button>
             </>
           ) : (
@@ -44,9 +55,10 @@ const Navbar: React.FC = () => {
 
 const App: React.FC = () => {
   return (
-    <AuthProvider>
-      <Router>
+    <Router>
+      <AuthProvider>
         <Navbar />
+        <EmailVerificationBanner />
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/login" element={
@@ -59,11 +71,27 @@ const App: React.FC = () => {
               <Register />
             </PublicRoute>
           } />
+          <Route path="/forgot-password" element={
+            <PublicRoute>
+              <ForgotPassword />
+            </PublicRoute>
+          } />
+          <Route path="/reset-password/:token" element={
+            <PublicRoute>
+              <ResetPassword />
+            </PublicRoute>
+          } />
+          <Route path="/verify-email/:token" element={<VerifyEmail />} />
           <Route path="/operator" element={
-            <ProtectedRoute requiredRole="operator">
+            <ProtectedRoute requiredPermission="dashboard:access">
               <OperatorDashboard />
             </ProtectedRoute>
           } />
+          <Route path="/admin" element={
+            <ProtectedRoute requiredPermission="user:manage">
+              <AdminConsole />
+            </ProtectedRoute>
+          } />
           <Route path="/user" element={
             <ProtectedRoute>
               <UserCenter />
@@ -71,8 +99,8 @@ const App: React.FC = () => {
           } />
           <Route path="/hotel/:id" element={<HotelDetail />} />
         </Routes>
-      </Router>
-    </AuthProvider>
+      </AuthProvider>
+    </Router>
   );
 };
 
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { TextField } from '@mui/material';
+import { CaptchaProviderProps } from './index';
+
+const LocalCaptcha: React.FC<CaptchaProviderProps> = ({ challenge, onChange }) => {
+  const [answer, setAnswer] = useState('');
+
+  useEffect(() => {
+    setAnswer('');
+  }, [challenge.id]);
+
+  const handleChange = (value: string) => {
+    setAnswer(value);
+    onChange(value.trim() ? `${challenge.id}:${value.trim()}` : null);
+  };
+
+  return (
+    <TextField
+      fullWidth
+      margin="normal"
+      id="captcha"
+      label={challenge.prompt || 'Verification'}
+      inputMode="numeric"
+      value={answer}
+      onChange={(event) => handleChange(event.target.value)}
+    />
+  );
+};
+
+export default LocalCaptcha;
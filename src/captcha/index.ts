@@ -0,0 +1,20 @@
+import React from 'react';
+import { CaptchaChallenge } from '../types';
+import LocalCaptcha from './LocalCaptcha';
+
+export interface CaptchaProviderProps {
+  challenge: CaptchaChallenge;
+  onChange: (token: string | null) => void;
+}
+
+export type CaptchaProvider = React.ComponentType<CaptchaProviderProps>;
+
+const providers = new Map<string, CaptchaProvider>([['local', LocalCaptcha]]);
+
+// Lets a real provider (hCaptcha, reCAPTCHA, ...) be plugged in at startup
+// under the id the server puts in `challenge.provider`.
+export const registerCaptchaProvider = (id: string, provider: CaptchaProvider) => {
+  providers.set(id, provider);
+};
+
+export const getCaptchaProvider = (id: string) => providers.get(id) ?? null;
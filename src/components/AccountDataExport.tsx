@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, Card, CardContent, Typography } from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { accountService } from '../services';
+import { AccountExport } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import { toCsv } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+
+type ExportFormat = 'json' | 'csv';
+
+const exportToCsv = ({ profile, favorites, bookings }: AccountExport) => [
+  '# Profile',
+  toCsv([profile], ['id', 'email', 'displayName', 'phone', 'role', 'emailVerified']),
+  '',
+  '# Favorites',
+  toCsv(favorites, ['id', 'name', 'address', 'price', 'availableRooms']),
+  '',
+  '# Bookings',
+  toCsv(bookings, [
+    'id',
+    'hotelName',
+    'hotelAddress',
+    'checkInDate',
+    'checkOutDate',
+    'guestCount',
+    'totalPrice',
+    'status',
+    'specialRequests',
+    'createdAt',
+  ]),
+].join('\r\n');
+
+const AccountDataExport: React.FC = () => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError('');
+    try {
+      const data = await accountService.exportData();
+      const date = data.exportedAt.slice(0, 10);
+      if (format === 'json') {
+        downloadFile(`wanderlust-export-${date}.json`, JSON.stringify(data, null, 2), 'application/json');
+      } else {
+        downloadFile(`wanderlust-export-${date}.csv`, exportToCsv(data), 'text/csv');
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to export your data'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Typography variant="h6">Your data</Typography>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Download a copy of your profile, favorites and bookings.
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box display="flex" gap={2}>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            disabled={exporting !== null}
+            onClick={() => handleExport('json')}
+          >
+            {exporting === 'json' ? 'Exporting...' : 'Export as JSON'}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            disabled={exporting !== null}
+            onClick={() => handleExport('csv')}
+          >
+            {exporting === 'csv' ? 'Exporting...' : 'Export as CSV'}
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountDataExport;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { Logout as LogoutIcon } from '@mui/icons-material';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys, sessionsService } from '../services';
+import { getErrorMessage } from '../utils/apiError';
+import { describeUserAgent } from '../utils/userAgent';
+
+const ActiveSessions: React.FC = () => {
+  const sessionsResult = useQuery(queryKeys.sessions, sessionsService.list);
+  const [status, setStatus] = useState({ message: '', severity: 'success' as 'success' | 'error' });
+  const [pending, setPending] = useState(false);
+  const sessions = sessionsResult.data ?? [];
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  const runRevoke = async (action: () => Promise<{ message?: string }>, fallback: string) => {
+    setPending(true);
+    setStatus({ message: '', severity: 'success' });
+    try {
+      const response = await action();
+      setStatus({ message: response.message || fallback, severity: 'success' });
+    } catch (error) {
+      setStatus({ message: getErrorMessage(error, 'Failed to sign out session'), severity: 'error' });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Box display="flex" alignItems="center" mb={1}>
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="h6">Active sessions</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Devices currently signed in to your account.
+            </Typography>
+          </Box>
+          <Button
+            variant="outlined"
+            color="error"
+            disabled={pending || !hasOtherSessions}
+            onClick={() => runRevoke(sessionsService.revokeOthers, 'Signed out of all other sessions')}
+          >
+            Sign out all other sessions
+          </Button>
+        </Box>
+        {status.message && (
+          <Alert severity={status.severity} sx={{ mb: 1 }}>{status.message}</Alert>
+        )}
+        {sessionsResult.isLoading ? (
+          <Typography color="text.secondary">Loading...</Typography>
+        ) : sessionsResult.error ? (
+          <Alert severity="error">{getErrorMessage(sessionsResult.error, 'Failed to fetch sessions')}</Alert>
+        ) : (
+          <List disablePadding>
+            {sessions.map(session => (
+              <ListItem
+                key={session.id}
+                divider
+                secondaryAction={!session.current && (
+                  <IconButton
+                    edge="end"
+                    color="error"
+                    title="Sign out this session"
+                    disabled={pending}
+                    onClick={() => runRevoke(() => sessionsService.revoke(session.id), 'Session signed out')}
+                  >
+                    <LogoutIcon />
+                  </IconButton>
+                )}
+              >
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && <Chip label="This device" color="primary" size="small" />}
+                    </Box>
+                  }
+                  secondary={`Last active ${new Date(session.lastSeenAt).toLocaleString()} · Signed in ${new Date(session.createdAt).toLocaleString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import { downloadFile } from '../utils/download';
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+const BackupCodesList: React.FC<BackupCodesListProps> = ({ codes }) => (
+  <Box>
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      Save these backup codes somewhere safe. Each code can be used once if you lose access to your authenticator app.
+    </Alert>
+    <Box display="grid" gridTemplateColumns="repeat(2, 1fr)" gap={1} mb={2}>
+      {codes.map(code => (
+        <Typography key={code} variant="body1" align="center" sx={{ fontFamily: 'monospace' }}>
+          {code}
+        </Typography>
+      ))}
+    </Box>
+    <Button variant="outlined" fullWidth onClick={() => downloadFile('wanderlust-backup-codes.txt', `${codes.join('\n')}\n`)}>
+      Download codes
+    </Button>
+  </Box>
+);
+
+export default BackupCodesList;
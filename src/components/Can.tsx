@@ -0,0 +1,16 @@
+import React from 'react';
+import { useCan } from '../contexts/AuthContext';
+import { Permission } from '../utils/permissions';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = useCan(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Alert, Box, Typography } from '@mui/material';
+import { getCaptchaProvider } from '../captcha';
+import { CaptchaChallenge as Challenge } from '../types';
+
+interface CaptchaChallengeProps {
+  challenge: Challenge;
+  onChange: (token: string | null) => void;
+}
+
+const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ challenge, onChange }) => {
+  const Provider = getCaptchaProvider(challenge.provider);
+
+  if (!Provider) {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Verification is unavailable right now, please try again later.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box mt={2}>
+      <Typography variant="body2" color="text.secondary">
+        Please confirm you are not a robot to continue.
+      </Typography>
+      <Provider challenge={challenge} onChange={onChange} />
+    </Box>
+  );
+};
+
+export default CaptchaChallenge;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthProvider } from '../contexts/AuthContext';
+import { accountService, bookingsService } from '../services';
+import { Booking } from '../types';
+import { ApiError } from '../utils/apiError';
+import { clearQueryCache } from '../utils/queryCache';
+import DeleteAccount from './DeleteAccount';
+
+const booking = (status: Booking['status']): Booking => ({
+  id: 1,
+  hotelName: 'Harbour View',
+  hotelAddress: '1 Quay St',
+  checkInDate: '2030-01-01',
+  checkOutDate: '2030-01-03',
+  guestCount: 2,
+  totalPrice: 840,
+  status,
+  createdAt: '2029-12-01T00:00:00.000Z',
+});
+
+const openDialog = () => {
+  render(
+    <MemoryRouter>
+      <AuthProvider>
+        <DeleteAccount />
+      </AuthProvider>
+    </MemoryRouter>
+  );
+  fireEvent.click(screen.getByRole('button', { name: 'Delete account' }));
+};
+
+beforeEach(() => {
+  clearQueryCache();
+  jest.spyOn(accountService, 'remove').mockResolvedValue({ message: 'Deleted' });
+});
+
+test('blocks deletion while the bookings check is running', async () => {
+  jest.spyOn(bookingsService, 'listMine').mockReturnValue(new Promise(() => undefined));
+
+  openDialog();
+
+  expect(await screen.findByText('Checking your bookings...')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Delete my account' })).toBeDisabled();
+});
+
+test('blocks deletion when the bookings check fails and offers a retry', async () => {
+  const listMine = jest.spyOn(bookingsService, 'listMine')
+    .mockRejectedValueOnce(new ApiError({ code: 'NETWORK_ERROR', message: 'Unable to reach the server' }))
+    .mockResolvedValueOnce([booking('completed')]);
+
+  openDialog();
+
+  expect(await screen.findByText('Unable to reach the server')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Delete my account' })).toBeDisabled();
+  expect(screen.queryByLabelText('Confirm with your password')).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+  expect(await screen.findByLabelText('Confirm with your password')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Delete my account' })).toBeEnabled();
+  expect(listMine).toHaveBeenCalledTimes(2);
+});
+
+test('blocks deletion while bookings are still active', async () => {
+  jest.spyOn(bookingsService, 'listMine').mockResolvedValue([booking('confirmed'), booking('cancelled')]);
+
+  openDialog();
+
+  expect(await screen.findByText(/You have 1 pending or confirmed booking/)).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Delete my account' })).toBeDisabled();
+});
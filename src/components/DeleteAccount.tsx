@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { accountService, bookingsService, queryKeys } from '../services';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+const DeleteAccount: React.FC = () => {
+  const { logout } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const bookingsResult = useQuery(queryKeys.myBookings, bookingsService.listMine, { enabled: open });
+  const activeBookings = (bookingsResult.data ?? []).filter(booking => ACTIVE_BOOKING_STATUSES.includes(booking.status));
+  // Deleting is only offered once the bookings check has come back clean.
+  const blocked = bookingsResult.isLoading || Boolean(bookingsResult.error) || activeBookings.length > 0;
+
+  const formik = useFormik({
+    initialValues: { password: '' },
+    validationSchema: Yup.object({
+      password: Yup.string().required('Please enter your password'),
+    }),
+    onSubmit: async (values) => {
+      if (blocked) return;
+      setError('');
+      try {
+        await accountService.remove(values.password);
+        logout();
+      } catch (err) {
+        if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Failed to delete account'));
+        }
+      }
+    },
+  });
+
+  const handleClose = () => {
+    setOpen(false);
+    setError('');
+    formik.resetForm();
+  };
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={2}>
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="h6">Delete account</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Permanently delete your account and personal data.
+            </Typography>
+          </Box>
+          <Button variant="outlined" color="error" onClick={() => setOpen(true)}>
+            Delete account
+          </Button>
+        </Box>
+      </CardContent>
+
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete account</DialogTitle>
+        <form onSubmit={formik.handleSubmit}>
+          <DialogContent>
+            {bookingsResult.isLoading ? (
+              <Typography color="text.secondary">Checking your bookings...</Typography>
+            ) : bookingsResult.error ? (
+              <Alert
+                severity="error"
+                action={<Button color="inherit" size="small" onClick={() => bookingsResult.refetch().catch(() => undefined)}>Retry</Button>}
+              >
+                {getErrorMessage(bookingsResult.error, 'We could not check your bookings, please try again')}
+              </Alert>
+            ) : activeBookings.length > 0 ? (
+              <Alert severity="warning">
+                You have {activeBookings.length} pending or confirmed booking(s). Cancel them or wait until they are
+                completed before deleting your account.
+              </Alert>
+            ) : (
+              <>
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  This cannot be undone. Your profile, favorites and sign-ins will be removed.
+                </Alert>
+                <TextField
+                  fullWidth
+                  margin="normal"
+                  name="password"
+                  label="Confirm with your password"
+                  type="password"
+                  value={formik.values.password}
+                  onChange={formik.handleChange}
+                  error={formik.touched.password && Boolean(formik.errors.password)}
+                  helperText={formik.touched.password && formik.errors.password}
+                />
+              </>
+            )}
+            {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleClose}>Cancel</Button>
+            <Button type="submit" variant="contained" color="error" disabled={blocked || formik.isSubmitting}>
+              Delete my account
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DeleteAccount;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Alert, Box } from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+import ResendVerificationButton from './ResendVerificationButton';
+
+const EmailVerificationBanner: React.FC = () => {
+  const { user, emailVerified } = useAuth();
+
+  if (!user || emailVerified) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      square
+      action={
+        <Box alignSelf="center">
+          <ResendVerificationButton email={user.email} size="small" />
+        </Box>
+      }
+    >
+      Please verify {user.email} to start booking. Check your inbox for the verification link.
+    </Alert>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Box, Button, MenuItem, TextField } from '@mui/material';
+import { HOTEL_SORTS, HotelFilterForm, localToday, MAX_GUESTS_PER_BOOKING, validateFilterForm } from '../utils/hotelSearch';
+
+interface HotelFiltersProps {
+  values: HotelFilterForm;
+  onChange: (field: keyof HotelFilterForm, value: string) => void;
+  onApply: () => void;
+  onClear: () => void;
+}
+
+const HotelFilters: React.FC<HotelFiltersProps> = ({ values, onChange, onApply, onClear }) => {
+  const errors = validateFilterForm(values);
+  const invalid = Object.keys(errors).length > 0;
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && !invalid) {
+      onApply();
+    }
+  };
+
+  const dateField = (field: 'checkIn' | 'checkOut', label: string, error?: string) => (
+    <TextField
+      size="small"
+      type="date"
+      label={label}
+      value={values[field]}
+      onChange={e => onChange(field, e.target.value)}
+      onKeyDown={handleKeyDown}
+      error={Boolean(error)}
+      helperText={error}
+      InputLabelProps={{ shrink: true }}
+      inputProps={{ min: field === 'checkOut' && values.checkIn ? values.checkIn : localToday() }}
+      sx={{ width: 170 }}
+    />
+  );
+
+  const numberField = (field: 'minPrice' | 'maxPrice' | 'minRooms' | 'guests', label: string, error?: string) => (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      value={values[field]}
+      onChange={e => onChange(field, e.target.value)}
+      onKeyDown={handleKeyDown}
+      error={Boolean(error)}
+      helperText={error}
+      inputProps={field === 'guests' ? { min: 1, max: MAX_GUESTS_PER_BOOKING } : { min: 0 }}
+      sx={{ width: 140 }}
+    />
+  );
+
+  return (
+    <Box display="flex" flexWrap="wrap" gap={2} alignItems="flex-start" justifyContent="center" mb={4}>
+      {dateField('checkIn', 'Check-in', errors.checkIn)}
+      {dateField('checkOut', 'Check-out', errors.checkOut)}
+      {numberField('guests', 'Guests', errors.guests)}
+      <TextField
+        size="small"
+        label="Address or city"
+        value={values.location}
+        onChange={e => onChange('location', e.target.value)}
+        onKeyDown={handleKeyDown}
+        sx={{ width: 200 }}
+      />
+      {numberField('minPrice', 'Min price')}
+      {numberField('maxPrice', 'Max price', errors.maxPrice)}
+      {numberField('minRooms', 'Min rooms')}
+      <TextField
+        select
+        size="small"
+        label="Sort by"
+        value={values.sort}
+        onChange={e => onChange('sort', e.target.value)}
+        sx={{ width: 200 }}
+      >
+        <MenuItem value="">Recommended</MenuItem>
+        {HOTEL_SORTS.map(sort => (
+          <MenuItem key={sort.value} value={sort.value}>{sort.label}</MenuItem>
+        ))}
+      </TextField>
+      <Button variant="outlined" onClick={onApply} disabled={invalid}>
+        Apply filters
+      </Button>
+      <Button onClick={onClear}>Clear</Button>
+    </Box>
+  );
+};
+
+export default HotelFilters;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Box, Button, Card, CardActions, CardContent, Typography } from '@mui/material';
+import { Hotel } from '../types';
+import MapView, { MapMarker } from './MapView';
+
+interface HotelMapProps {
+  hotels: Hotel[];
+  onViewDetails: (hotelId: number) => void;
+}
+
+const toMarker = (hotel: Hotel): MapMarker | null =>
+  hotel.latitude == null || hotel.longitude == null
+    ? null
+    : {
+      id: hotel.id,
+      position: { latitude: hotel.latitude, longitude: hotel.longitude },
+      label: `¥${hotel.stay ? hotel.stay.nightlyPrice : hotel.price}`,
+      title: hotel.name,
+    };
+
+const HotelMap: React.FC<HotelMapProps> = ({ hotels, onViewDetails }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const markers = hotels.map(toMarker).filter((marker): marker is MapMarker => marker !== null);
+  const selected = hotels.find(hotel => hotel.id === selectedId) ?? null;
+  const unmapped = hotels.length - markers.length;
+
+  return (
+    <Box>
+      <MapView markers={markers} selectedId={selectedId} onMarkerClick={id => setSelectedId(Number(id))} />
+      {unmapped > 0 && (
+        <Typography variant="body2" color="text.secondary" mt={1}>
+          {unmapped} {unmapped === 1 ? 'hotel has' : 'hotels have'} no location yet and {unmapped === 1 ? 'is' : 'are'} not shown on the map.
+        </Typography>
+      )}
+      {selected && (
+        <Card sx={{ mt: 2 }}>
+          <CardContent>
+            <Typography variant="h6">{selected.name}</Typography>
+            <Typography variant="body2" color="text.secondary">{selected.address}</Typography>
+            <Typography color="primary" mt={1}>
+              ¥{selected.stay ? selected.stay.nightlyPrice : selected.price} / night
+              {selected.stay && ` · ¥${selected.stay.totalPrice} total`}
+            </Typography>
+          </CardContent>
+          <CardActions sx={{ p: 2, pt: 0 }}>
+            <Button variant="contained" onClick={() => onViewDetails(selected.id)}>View Details</Button>
+          </CardActions>
+        </Card>
+      )}
+    </Box>
+  );
+};
+
+export default HotelMap;
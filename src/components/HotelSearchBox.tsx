@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Autocomplete, Box, CircularProgress, TextField, Typography } from '@mui/material';
+import { Hotel as HotelIcon, LocationOn, Search as SearchIcon } from '@mui/icons-material';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { hotelsService } from '../services';
+import { HotelSuggestions } from '../types';
+
+const SUGGEST_DELAY_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+type Suggestion =
+  | { type: 'hotel'; id: number; label: string; detail: string }
+  | { type: 'location'; label: string; detail: string };
+
+interface HotelSearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSearch: () => void;
+  onSelectHotel: (hotelId: number) => void;
+  onSelectLocation: (location: string) => void;
+}
+
+const toOptions = ({ hotels, locations }: HotelSuggestions): Suggestion[] => [
+  ...hotels.map(hotel => ({ type: 'hotel' as const, id: hotel.id, label: hotel.name, detail: hotel.address })),
+  ...locations.map(location => ({
+    type: 'location' as const,
+    label: location.name,
+    detail: `${location.hotelCount} ${location.hotelCount === 1 ? 'hotel' : 'hotels'}`,
+  })),
+];
+
+// Hotels can share a name, so they are told apart by id; location names are already unique.
+const optionKey = (option: Suggestion) => (option.type === 'hotel' ? `hotel-${option.id}` : `location-${option.label}`);
+
+const HotelSearchBox: React.FC<HotelSearchBoxProps> = ({ value, onChange, onSearch, onSelectHotel, onSelectLocation }) => {
+  const [options, setOptions] = useState<Suggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const query = useDebouncedValue(value.trim(), SUGGEST_DELAY_MS);
+
+  useEffect(() => {
+    if (query.length < MIN_QUERY_LENGTH) {
+      setOptions([]);
+      setLoading(false);
+      return;
+    }
+    // Aborting on every new query keeps a slow earlier response from replacing newer suggestions.
+    const controller = new AbortController();
+    setLoading(true);
+    hotelsService.suggest(query, controller.signal)
+      .then(result => setOptions(toOptions(result)))
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setOptions([]);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+    return () => controller.abort();
+  }, [query]);
+
+  const handleChange = (_: React.SyntheticEvent, option: Suggestion | string | null) => {
+    if (option === null) return;
+    if (typeof option === 'string') {
+      onSearch();
+    } else if (option.type === 'hotel') {
+      onSelectHotel(option.id);
+    } else {
+      onSelectLocation(option.label);
+    }
+  };
+
+  return (
+    <Autocomplete
+      freeSolo
+      value={null}
+      inputValue={value}
+      onInputChange={(_, nextValue, reason) => {
+        if (reason !== 'reset') {
+          onChange(nextValue);
+        }
+      }}
+      onChange={handleChange}
+      options={options}
+      filterOptions={items => items}
+      groupBy={option => (option.type === 'hotel' ? 'Hotels' : 'Locations')}
+      getOptionLabel={option => (typeof option === 'string' ? option : option.label)}
+      isOptionEqualToValue={(option, selected) => optionKey(option) === optionKey(selected)}
+      loading={loading}
+      sx={{ flex: 1, mr: 2 }}
+      renderOption={({ key, ...props }, option) => (
+        <Box component="li" key={optionKey(option)} {...props}>
+          {option.type === 'hotel'
+            ? <HotelIcon color="action" sx={{ mr: 1.5 }} />
+            : <LocationOn color="action" sx={{ mr: 1.5 }} />}
+          <Box>
+            <Typography variant="body2">{option.label}</Typography>
+            <Typography variant="caption" color="text.secondary">{option.detail}</Typography>
+          </Box>
+        </Box>
+      )}
+      renderInput={params => (
+        <TextField
+          {...params}
+          label="Search hotel name"
+          InputProps={{
+            ...params.InputProps,
+            endAdornment: loading ? <CircularProgress size={20} /> : <SearchIcon color="action" />,
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default HotelSearchBox;
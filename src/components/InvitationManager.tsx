@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Cancel as CancelIcon, ContentCopy as CopyIcon, PersonAdd as PersonAddIcon } from '@mui/icons-material';
+import { useQuery } from '../hooks/useQuery';
+import { invitationsService, queryKeys } from '../services';
+import { Invitation, InvitationStatus } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+
+const STATUS_COLORS: Record<InvitationStatus, 'warning' | 'success' | 'default' | 'error'> = {
+  pending: 'warning',
+  accepted: 'success',
+  expired: 'default',
+  revoked: 'error',
+};
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  revoked: 'Withdrawn',
+};
+
+const InvitationManager: React.FC = () => {
+  const invitationsResult = useQuery(queryKeys.invitations, invitationsService.list);
+  const invitations = invitationsResult.data ?? [];
+  const [openDialog, setOpenDialog] = useState(false);
+  const [created, setCreated] = useState<Invitation | null>(null);
+  const [status, setStatus] = useState({ message: '', severity: 'success' as 'success' | 'error' });
+
+  const formik = useFormik({
+    initialValues: { email: '' },
+    validationSchema: Yup.object({
+      email: Yup.string().email('Please enter a valid email').required('Please enter an email'),
+    }),
+    onSubmit: async (values) => {
+      try {
+        setCreated(await invitationsService.create({ email: values.email.trim() }));
+      } catch (error) {
+        if (!applyFieldErrors(formik, error)) {
+          formik.setStatus(getErrorMessage(error, 'Failed to send invitation'));
+        }
+      }
+    },
+  });
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setCreated(null);
+    formik.resetForm();
+  };
+
+  const handleCopyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setStatus({ message: 'Invitation link copied', severity: 'success' });
+    } catch {
+      setStatus({ message: 'Copy failed, please select the link manually', severity: 'error' });
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await invitationsService.revoke(invitation.id);
+      setStatus({ message: `Invitation for ${invitation.email} withdrawn`, severity: 'success' });
+    } catch (error) {
+      setStatus({ message: getErrorMessage(error, 'Failed to withdraw invitation'), severity: 'error' });
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h5">Operator Invitations</Typography>
+        <Button variant="contained" startIcon={<PersonAddIcon />} onClick={() => setOpenDialog(true)}>
+          Invite Operator
+        </Button>
+      </Box>
+      {status.message && (
+        <Alert severity={status.severity} sx={{ mb: 2 }} onClose={() => setStatus({ ...status, message: '' })}>
+          {status.message}
+        </Alert>
+      )}
+      {invitationsResult.isLoading ? (
+        <Typography>Loading...</Typography>
+      ) : invitations.length === 0 ? (
+        <Card>
+          <CardContent>
+            <Typography color="text.secondary" align="center">
+              No invitations sent yet
+            </Typography>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <List disablePadding>
+            {invitations.map(invitation => (
+              <ListItem
+                key={invitation.id}
+                divider
+                secondaryAction={invitation.status === 'pending' && (
+                  <IconButton edge="end" color="error" title="Withdraw invitation" onClick={() => handleRevoke(invitation)}>
+                    <CancelIcon />
+                  </IconButton>
+                )}
+              >
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {invitation.email}
+                      <Chip label={STATUS_LABELS[invitation.status]} color={STATUS_COLORS[invitation.status]} size="small" />
+                    </Box>
+                  }
+                  secondary={[
+                    `Sent ${new Date(invitation.createdAt).toLocaleDateString()}`,
+                    invitation.invitedBy && `by ${invitation.invitedBy}`,
+                    invitation.status === 'pending' && `· expires ${new Date(invitation.expiresAt).toLocaleDateString()}`,
+                  ].filter(Boolean).join(' ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Card>
+      )}
+
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>Invite Operator</DialogTitle>
+        {created ? (
+          <>
+            <DialogContent>
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Invitation sent to {created.email}. The link can be used once and expires on{' '}
+                {new Date(created.expiresAt).toLocaleDateString()}.
+              </Alert>
+              {created.link && (
+                <Box display="flex" alignItems="center" gap={1}>
+                  <TextField fullWidth size="small" value={created.link} InputProps={{ readOnly: true }} />
+                  <IconButton title="Copy link" onClick={() => handleCopyLink(created.link!)}>
+                    <CopyIcon />
+                  </IconButton>
+                </Box>
+              )}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={handleCloseDialog}>Done</Button>
+            </DialogActions>
+          </>
+        ) : (
+          <form onSubmit={formik.handleSubmit}>
+            <DialogContent>
+              <Typography variant="body2" color="text.secondary">
+                The invitation link only works for this email address.
+              </Typography>
+              <TextField
+                fullWidth
+                margin="normal"
+                name="email"
+                label="Email"
+                value={formik.values.email}
+                onChange={formik.handleChange}
+                error={formik.touched.email && Boolean(formik.errors.email)}
+                helperText={formik.touched.email && formik.errors.email}
+              />
+              {formik.status && <Alert severity="error" sx={{ mt: 2 }}>{formik.status}</Alert>}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={handleCloseDialog}>Cancel</Button>
+              <Button type="submit" variant="contained" disabled={formik.isSubmitting}>
+                Send Invitation
+              </Button>
+            </DialogActions>
+          </form>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
+
+export default InvitationManager;
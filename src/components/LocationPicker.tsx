@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import { getMapProvider } from '../maps';
+import { Coordinates } from '../types';
+import MapView from './MapView';
+
+interface LocationPickerProps {
+  address: string;
+  value: Coordinates | null;
+  onChange: (value: Coordinates | null) => void;
+  error?: string;
+}
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ address, value, onChange, error }) => {
+  const [locating, setLocating] = useState(false);
+  const [message, setMessage] = useState('');
+  const [mapKey, setMapKey] = useState(0);
+
+  const handleLocate = async () => {
+    setLocating(true);
+    setMessage('');
+    try {
+      const position = await getMapProvider().geocode(address);
+      if (position) {
+        onChange(position);
+        setMapKey(key => key + 1);
+      } else {
+        setMessage('Address not found, click the map to place the pin manually');
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Address lookup failed');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <Box mt={2}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+        <Typography variant="subtitle2">Location</Typography>
+        <Box display="flex" gap={1}>
+          <Button size="small" onClick={handleLocate} disabled={!address.trim() || locating}>
+            {locating ? 'Locating...' : 'Find address'}
+          </Button>
+          <Button size="small" color="inherit" onClick={() => onChange(null)} disabled={!value}>
+            Clear pin
+          </Button>
+        </Box>
+      </Box>
+      <MapView
+        key={mapKey}
+        height={240}
+        markers={value ? [{ id: 'hotel', position: value, label: 'Hotel' }] : []}
+        onMapClick={onChange}
+      />
+      <Typography variant="caption" color={error ? 'error' : 'text.secondary'}>
+        {error || (value
+          ? `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`
+          : 'Click the map to place the pin')}
+      </Typography>
+      {message && <Alert severity="warning" sx={{ mt: 1 }}>{message}</Alert>}
+    </Box>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { getMapProvider, MapProvider, registerMapProvider, selectMapProvider } from '../maps';
+import MapView from './MapView';
+
+const stubProvider: MapProvider = {
+  id: 'stub',
+  tileUrl: (zoom, x, y) => `https://tiles.test/${zoom}/${x}/${y}.png`,
+  attribution: 'Stub tiles',
+  maxZoom: 3,
+  geocode: async () => null,
+};
+
+// Tiles carry an empty alt text, which gives them the presentation role.
+const tileUrls = () => screen.queryAllByRole('presentation').map(tile => tile.getAttribute('src'));
+
+const markers = [
+  { id: 1, position: { latitude: -33.8688, longitude: 151.2093 }, label: '¥420', title: 'Harbour View' },
+  { id: 2, position: { latitude: 51.5072, longitude: -0.1276 }, label: '¥310', title: 'Thames House' },
+];
+
+beforeEach(() => {
+  registerMapProvider(stubProvider);
+  selectMapProvider('stub');
+  jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(512);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  selectMapProvider('local');
+});
+
+test('keeps the current provider when an unknown one is selected', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  selectMapProvider('missing');
+
+  expect(getMapProvider()).toBe(stubProvider);
+  expect(warn).toHaveBeenCalledWith(expect.stringContaining('"missing"'));
+});
+
+test('draws tiles and markers from the selected provider', () => {
+  render(<MapView markers={markers} height={256} />);
+
+  const tiles = tileUrls();
+  expect(tiles.length).toBeGreaterThan(0);
+  tiles.forEach(src => expect(src).toMatch(/^https:\/\/tiles\.test\/1\/[01]\/[01]\.png$/));
+  expect(screen.getByText('¥420')).toBeInTheDocument();
+  expect(screen.getByTitle('Thames House')).toBeInTheDocument();
+  expect(screen.getByText('Stub tiles')).toBeInTheDocument();
+});
+
+test('stops zooming at the provider maximum and the shared minimum', () => {
+  render(<MapView markers={markers.slice(0, 1)} height={256} />);
+  const zoomOf = () => tileUrls()[0]?.split('/')[3];
+
+  expect(zoomOf()).toBe('3');
+  fireEvent.click(screen.getByTitle('Zoom in'));
+  expect(zoomOf()).toBe('3');
+
+  [1, 2, 3, 4].forEach(() => fireEvent.click(screen.getByTitle('Zoom out')));
+  expect(zoomOf()).toBe('1');
+});
+
+test('draws a plain grid when the provider has no imagery', () => {
+  selectMapProvider('local');
+
+  render(<MapView markers={markers} />);
+
+  expect(tileUrls()).toHaveLength(0);
+  expect(screen.getByText('¥310')).toBeInTheDocument();
+});
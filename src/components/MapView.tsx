@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, IconButton, Paper, Typography } from '@mui/material';
+import { Add as AddIcon, Remove as RemoveIcon } from '@mui/icons-material';
+import { getMapProvider } from '../maps';
+import { fitBounds, MIN_ZOOM, Point, project, TILE_SIZE, unproject } from '../maps/projection';
+import { Coordinates } from '../types';
+
+export interface MapMarker {
+  id: number | string;
+  position: Coordinates;
+  label: string;
+  title?: string;
+}
+
+interface MapViewProps {
+  markers: MapMarker[];
+  height?: number;
+  selectedId?: number | string | null;
+  onMarkerClick?: (id: number | string) => void;
+  onMapClick?: (position: Coordinates) => void;
+}
+
+const DRAG_THRESHOLD = 4;
+
+const MapView: React.FC<MapViewProps> = ({ markers, height = 480, selectedId = null, onMarkerClick, onMapClick }) => {
+  const provider = getMapProvider();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ start: Point; center: Point; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState({ center: { latitude: 20, longitude: 0 }, zoom: MIN_ZOOM });
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+  const markerKey = markers.map(marker => marker.id).join('|');
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const measure = () => setWidth(element.clientWidth);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Refit only when markers are added or removed, so moving a pin keeps the current view.
+  useEffect(() => {
+    if (!width) return;
+    setView(fitBounds(markersRef.current.map(marker => marker.position), width, height, Math.min(provider.maxZoom, 14)));
+  }, [markerKey, width, height, provider.maxZoom]);
+
+  const center = project(view.center, view.zoom);
+  const origin = { x: center.x - width / 2, y: center.y - height / 2 };
+
+  const tiles = useMemo(() => {
+    if (!provider.tileUrl || !width) return [];
+    const count = 2 ** view.zoom;
+    const result: { key: string; url: string; left: number; top: number }[] = [];
+    for (let x = Math.floor(origin.x / TILE_SIZE); x <= Math.floor((origin.x + width) / TILE_SIZE); x += 1) {
+      for (let y = Math.max(0, Math.floor(origin.y / TILE_SIZE)); y <= Math.min(count - 1, Math.floor((origin.y + height) / TILE_SIZE)); y += 1) {
+        const wrappedX = ((x % count) + count) % count;
+        result.push({
+          key: `${view.zoom}/${x}/${y}`,
+          url: provider.tileUrl(view.zoom, wrappedX, y),
+          left: x * TILE_SIZE - origin.x,
+          top: y * TILE_SIZE - origin.y,
+        });
+      }
+    }
+    return result;
+  }, [provider, view.zoom, origin.x, origin.y, width, height]);
+
+  const zoomBy = (delta: number) => {
+    setView(current => ({
+      ...current,
+      zoom: Math.max(MIN_ZOOM, Math.min(provider.maxZoom, current.zoom + delta)),
+    }));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    dragRef.current = { start: { x: event.clientX, y: event.clientY }, center, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.start.x;
+    const dy = event.clientY - drag.start.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setView(current => ({ ...current, center: unproject({ x: drag.center.x - dx, y: drag.center.y - dy }, current.zoom) }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onMapClick || !containerRef.current) return;
+    const bounds = containerRef.current.getBoundingClientRect();
+    onMapClick(unproject({ x: origin.x + event.clientX - bounds.left, y: origin.y + event.clientY - bounds.top }, view.zoom));
+  };
+
+  return (
+    <Box
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+      sx={{
+        position: 'relative',
+        height,
+        overflow: 'hidden',
+        borderRadius: 1,
+        border: 1,
+        borderColor: 'divider',
+        cursor: onMapClick ? 'crosshair' : 'grab',
+        touchAction: 'none',
+        userSelect: 'none',
+        bgcolor: '#e8eef3',
+        backgroundImage: provider.tileUrl
+          ? undefined
+          : 'linear-gradient(#d3dde5 1px, transparent 1px), linear-gradient(90deg, #d3dde5 1px, transparent 1px)',
+        backgroundSize: `${TILE_SIZE / 4}px ${TILE_SIZE / 4}px`,
+        backgroundPosition: `${-origin.x}px ${-origin.y}px`,
+      }}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          style={{ position: 'absolute', left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {markers.map(marker => {
+        const point = project(marker.position, view.zoom);
+        const selected = marker.id === selectedId;
+        return (
+          <Paper
+            key={marker.id}
+            elevation={selected ? 6 : 2}
+            title={marker.title}
+            onPointerDown={event => event.stopPropagation()}
+            onClick={() => onMarkerClick?.(marker.id)}
+            sx={{
+              position: 'absolute',
+              left: point.x - origin.x,
+              top: point.y - origin.y,
+              transform: 'translate(-50%, -100%)',
+              px: 1,
+              py: 0.25,
+              zIndex: selected ? 2 : 1,
+              cursor: onMarkerClick ? 'pointer' : 'default',
+              bgcolor: selected ? 'primary.main' : 'background.paper',
+              color: selected ? 'primary.contrastText' : 'text.primary',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            <Typography variant="caption" fontWeight="bold">{marker.label}</Typography>
+          </Paper>
+        );
+      })}
+
+      <Box
+        position="absolute"
+        top={8}
+        right={8}
+        display="flex"
+        flexDirection="column"
+        onPointerDown={event => event.stopPropagation()}
+      >
+        <Paper sx={{ mb: 0.5 }}>
+          <IconButton size="small" onClick={() => zoomBy(1)} title="Zoom in"><AddIcon fontSize="small" /></IconButton>
+        </Paper>
+        <Paper>
+          <IconButton size="small" onClick={() => zoomBy(-1)} title="Zoom out"><RemoveIcon fontSize="small" /></IconButton>
+        </Paper>
+      </Box>
+
+      {provider.attribution && (
+        <Typography
+          variant="caption"
+          sx={{ position: 'absolute', right: 0, bottom: 0, px: 0.5, bgcolor: 'rgba(255,255,255,0.7)' }}
+        >
+          {provider.attribution}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default MapView;
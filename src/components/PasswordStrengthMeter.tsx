@@ -0,0 +1,50 @@
+import React from 'react';
+import { Box, LinearProgress, List, ListItem, ListItemIcon, ListItemText, Typography } from '@mui/material';
+import { CheckCircle as CheckIcon, RadioButtonUnchecked as PendingIcon } from '@mui/icons-material';
+import { checkPassword } from '../utils/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  email?: string;
+}
+
+const STRENGTH_COLORS = ['error', 'error', 'warning', 'info', 'success'] as const;
+
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, email }) => {
+  if (!password) return null;
+
+  const { rules, score, label } = checkPassword(password, { email });
+
+  return (
+    <Box mt={1}>
+      <Box display="flex" alignItems="center" gap={1}>
+        <LinearProgress
+          variant="determinate"
+          value={(score / 4) * 100}
+          color={STRENGTH_COLORS[score]}
+          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 56 }}>
+          {label}
+        </Typography>
+      </Box>
+      <List dense disablePadding>
+        {rules.map(rule => (
+          <ListItem key={rule.id} disableGutters sx={{ py: 0 }}>
+            <ListItemIcon sx={{ minWidth: 28 }}>
+              {rule.passed
+                ? <CheckIcon fontSize="small" color="success" />
+                : <PendingIcon fontSize="small" color="disabled" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={rule.label}
+              primaryTypographyProps={{ variant: 'caption', color: rule.passed ? 'text.primary' : 'text.secondary' }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default PasswordStrengthMeter;
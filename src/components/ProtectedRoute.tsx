@@ -1,19 +1,22 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { CircularProgress, Box } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../utils/permissions';
+import { buildLoginRedirectState, readLoginRedirectState, resolvePostLoginRedirect } from '../utils/redirect';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'operator' | 'user';
+  requiredPermission?: Permission | Permission[];
 }
 
 interface PublicRouteProps {
   children: React.ReactNode;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredPermission }) => {
+  const { user, loading, can } = useAuth();
+  const location = useLocation();
   
   if (loading) {
     return (
@@ -24,16 +27,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole
   }
   
   if (!user) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={buildLoginRedirectState(location)} />;
   }
   
-  if (requiredRole && user.role !== requiredRole) {
-    if (requiredRole === 'operator') {
-      return <Navigate to="/" replace />;
-    }
-    if (requiredRole === 'user') {
-      return <Navigate to="/" replace />;
-    }
+  if (requiredPermission && !can(requiredPermission)) {
+    return <Navigate to="/" replace />;
   }
   
   return <>{children}</>;
@@ -41,6 +39,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole
 
 const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
   
   if (loading) {
     return (
@@ -51,7 +50,8 @@ const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
   }
   
   if (user) {
-    return <Navigate to={user.role === 'operator' ? '/operator' : '/'} replace />;
+    const redirect = resolvePostLoginRedirect(readLoginRedirectState(location.state), user);
+    return <Navigate to={redirect.to} state={redirect.state} replace />;
   }
   
   return <>{children}</>;
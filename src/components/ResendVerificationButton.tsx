@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+import { useCooldown } from '../hooks/useCooldown';
+import { authService } from '../services';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface ResendVerificationButtonProps {
+  email: string;
+  startWithCooldown?: boolean;
+  size?: 'small' | 'medium';
+}
+
+const ResendVerificationButton: React.FC<ResendVerificationButtonProps> = ({ email, startWithCooldown = false, size = 'medium' }) => {
+  const cooldown = useCooldown();
+  const [sending, setSending] = useState(false);
+  const [status, setStatus] = useState({ message: '', error: false });
+  const startCooldown = cooldown.start;
+
+  useEffect(() => {
+    if (startWithCooldown) {
+      startCooldown(RESEND_COOLDOWN_SECONDS);
+    }
+  }, [startWithCooldown, startCooldown]);
+
+  const handleResend = async () => {
+    setSending(true);
+    setStatus({ message: '', error: false });
+    try {
+      const response = await authService.resendVerification(email);
+      setStatus({ message: response.message || `Verification email sent to ${email}`, error: false });
+      cooldown.start(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.retryAfter) {
+        cooldown.start(apiError.retryAfter);
+      }
+      setStatus({ message: getErrorMessage(error, 'Failed to resend verification email'), error: true });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Button
+        variant="outlined"
+        size={size}
+        onClick={handleResend}
+        disabled={sending || cooldown.active}
+      >
+        {cooldown.active ? `Resend in ${cooldown.remaining}s` : 'Resend verification email'}
+      </Button>
+      {status.message && (
+        <Typography variant="body2" color={status.error ? 'error' : 'text.secondary'} sx={{ mt: 1 }}>
+          {status.message}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ResendVerificationButton;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import { Alert, Box, Button, TextField } from '@mui/material';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (code: string) => Promise<void>;
+  submitLabel?: string;
+  allowBackupCode?: boolean;
+  onCancel?: () => void;
+}
+
+const TwoFactorCodeForm: React.FC<TwoFactorCodeFormProps> = ({
+  onSubmit,
+  submitLabel = 'Verify',
+  allowBackupCode = false,
+  onCancel,
+}) => {
+  const [error, setError] = useState('');
+
+  const formik = useFormik({
+    initialValues: { code: '' },
+    validationSchema: Yup.object({
+      code: allowBackupCode
+        ? Yup.string().trim().required('Please enter your authentication or backup code')
+        : Yup.string().trim().matches(/^\d{6}$/, 'Please enter the 6-digit code').required('Please enter the 6-digit code'),
+    }),
+    onSubmit: async (values) => {
+      setError('');
+      try {
+        await onSubmit(values.code.trim());
+      } catch (err) {
+        if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Verification failed'));
+        }
+      }
+    },
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <TextField
+        fullWidth
+        margin="normal"
+        id="code"
+        name="code"
+        label={allowBackupCode ? 'Authentication or backup code' : 'Authentication code'}
+        autoComplete="one-time-code"
+        autoFocus
+        value={formik.values.code}
+        onChange={formik.handleChange}
+        error={formik.touched.code && Boolean(formik.errors.code)}
+        helperText={formik.touched.code && formik.errors.code}
+      />
+      {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      <Box display="flex" gap={2} mt={2}>
+        {onCancel && (
+          <Button fullWidth onClick={onCancel}>Cancel</Button>
+        )}
+        <Button color="primary" variant="contained" fullWidth type="submit" disabled={formik.isSubmitting}>
+          {submitLabel}
+        </Button>
+      </Box>
+    </form>
+  );
+};
+
+export default TwoFactorCodeForm;
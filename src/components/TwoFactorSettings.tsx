@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+import { twoFactorService } from '../services';
+import { TwoFactorSetup } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import BackupCodesList from './BackupCodesList';
+import TwoFactorCodeForm from './TwoFactorCodeForm';
+import TwoFactorSetupPanel from './TwoFactorSetupPanel';
+
+type DialogMode = 'enable' | 'disable' | null;
+
+const TwoFactorSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  if (!user) return null;
+
+  const closeDialog = () => {
+    setDialogMode(null);
+    setSetup(null);
+    setBackupCodes([]);
+    setError('');
+  };
+
+  const handleStartEnable = async () => {
+    setDialogMode('enable');
+    try {
+      setSetup(await twoFactorService.setup());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to start two-factor setup'));
+    }
+  };
+
+  const handleEnable = async (code: string) => {
+    const response = await twoFactorService.enable(code);
+    updateUser({ ...user, twoFactorEnabled: true });
+    setBackupCodes(response.backupCodes);
+  };
+
+  const handleDisable = async (code: string) => {
+    await twoFactorService.disable(code);
+    updateUser({ ...user, twoFactorEnabled: false });
+    closeDialog();
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={2}>
+          <Box sx={{ flexGrow: 1 }}>
+            <Box display="flex" alignItems="center" gap={1}>
+              <Typography variant="h6">Two-factor authentication</Typography>
+              <Chip
+                label={user.twoFactorEnabled ? 'On' : 'Off'}
+                color={user.twoFactorEnabled ? 'success' : 'default'}
+                size="small"
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              Require a code from your authenticator app when signing in.
+            </Typography>
+          </Box>
+          {user.twoFactorEnabled ? (
+            <Button variant="outlined" color="error" onClick={() => setDialogMode('disable')}>
+              Disable
+            </Button>
+          ) : (
+            <Button variant="contained" onClick={handleStartEnable}>
+              Enable
+            </Button>
+          )}
+        </Box>
+      </CardContent>
+
+      <Dialog open={dialogMode === 'enable'} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>Enable two-factor authentication</DialogTitle>
+        <DialogContent>
+          {error ? (
+            <Alert severity="error">{error}</Alert>
+          ) : backupCodes.length > 0 ? (
+            <BackupCodesList codes={backupCodes} />
+          ) : setup ? (
+            <>
+              <TwoFactorSetupPanel setup={setup} />
+              <TwoFactorCodeForm onSubmit={handleEnable} submitLabel="Enable" onCancel={closeDialog} />
+            </>
+          ) : (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress />
+            </Box>
+          )}
+        </DialogContent>
+        {(error || backupCodes.length > 0) && (
+          <DialogActions>
+            <Button onClick={closeDialog}>{backupCodes.length > 0 ? 'Done' : 'Close'}</Button>
+          </DialogActions>
+        )}
+      </Dialog>
+
+      <Dialog open={dialogMode === 'disable'} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>Disable two-factor authentication</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            Enter a code from your authenticator app or one of your backup codes to confirm.
+          </Typography>
+          <TwoFactorCodeForm onSubmit={handleDisable} submitLabel="Disable" allowBackupCode onCancel={closeDialog} />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
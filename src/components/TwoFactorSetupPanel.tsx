@@ -0,0 +1,29 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Box, Typography } from '@mui/material';
+import { TwoFactorSetup } from '../types';
+
+interface TwoFactorSetupPanelProps {
+  setup: TwoFactorSetup;
+}
+
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+const TwoFactorSetupPanel: React.FC<TwoFactorSetupPanelProps> = ({ setup }) => (
+  <Box textAlign="center">
+    <Typography variant="body2" color="text.secondary" gutterBottom>
+      Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+    </Typography>
+    <Box display="inline-block" p={2} bgcolor="common.white" borderRadius={1}>
+      <QRCodeSVG value={setup.otpauthUrl} size={180} />
+    </Box>
+    <Typography variant="body2" color="text.secondary" mt={1}>
+      Can't scan it? Enter this key manually:
+    </Typography>
+    <Typography variant="body1" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+      {formatSecret(setup.secret)}
+    </Typography>
+  </Box>
+);
+
+export default TwoFactorSetupPanel;
@@ -0,0 +1,34 @@
+import { getConfig, loadRuntimeConfig } from './config';
+
+const originalFetch = window.fetch;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  window.fetch = originalFetch;
+});
+
+test('gives up on a stalled config.json and keeps the build-time settings', async () => {
+  const defaults = getConfig();
+  window.fetch = jest.fn((_: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+
+  const loaded = loadRuntimeConfig();
+  jest.advanceTimersByTime(3000);
+
+  await expect(loaded).resolves.toEqual(defaults);
+  expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Runtime config not loaded'), expect.anything());
+});
+
+test('applies overrides that arrive in time', async () => {
+  window.fetch = jest.fn(async () => ({ ok: true, json: async () => ({ apiTimeout: 15000 }) } as Response));
+
+  await expect(loadRuntimeConfig()).resolves.toMatchObject({ apiTimeout: 15000 });
+  expect(jest.getTimerCount()).toBe(0);
+});
@@ -0,0 +1,87 @@
+export interface RetryPolicy {
+  retries: number;
+  retryDelay: number;
+  retryOn: number[];
+}
+
+export interface AppConfig {
+  apiBaseUrl: string;
+  apiTimeout: number;
+  retry: RetryPolicy;
+  useMockApi: boolean;
+  mapProvider: string;
+  mapContactEmail: string;
+}
+
+type RuntimeConfig = Partial<Omit<AppConfig, 'retry'>> & { retry?: Partial<RetryPolicy> };
+
+const parseNumber = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const parseStatusList = (value: unknown, fallback: number[]) => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!list) return fallback;
+  const statuses = list.map(status => parseInt(String(status).trim(), 10)).filter(Number.isFinite);
+  return statuses.length > 0 ? statuses : fallback;
+};
+
+const parseBoolean = (value: unknown, fallback: boolean) => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return fallback;
+};
+
+const envConfig: AppConfig = {
+  apiBaseUrl: process.env.REACT_APP_API_BASE_URL || 'http://localhost:3000/api',
+  apiTimeout: parseNumber(process.env.REACT_APP_API_TIMEOUT, 10000),
+  retry: {
+    retries: parseNumber(process.env.REACT_APP_API_RETRIES, 2),
+    retryDelay: parseNumber(process.env.REACT_APP_API_RETRY_DELAY, 500),
+    retryOn: parseStatusList(process.env.REACT_APP_API_RETRY_ON, [502, 503, 504]),
+  },
+  useMockApi: parseBoolean(process.env.REACT_APP_USE_MOCK_API, false),
+  mapProvider: process.env.REACT_APP_MAP_PROVIDER || 'local',
+  mapContactEmail: process.env.REACT_APP_MAP_CONTACT_EMAIL || '',
+};
+
+let currentConfig: AppConfig = envConfig;
+
+const mergeConfig = (base: AppConfig, overrides: RuntimeConfig): AppConfig => ({
+  apiBaseUrl: typeof overrides.apiBaseUrl === 'string' && overrides.apiBaseUrl ? overrides.apiBaseUrl : base.apiBaseUrl,
+  apiTimeout: parseNumber(overrides.apiTimeout, base.apiTimeout),
+  retry: {
+    retries: parseNumber(overrides.retry?.retries, base.retry.retries),
+    retryDelay: parseNumber(overrides.retry?.retryDelay, base.retry.retryDelay),
+    retryOn: parseStatusList(overrides.retry?.retryOn, base.retry.retryOn),
+  },
+  useMockApi: parseBoolean(overrides.useMockApi, base.useMockApi),
+  mapProvider: typeof overrides.mapProvider === 'string' && overrides.mapProvider ? overrides.mapProvider : base.mapProvider,
+  mapContactEmail: typeof overrides.mapContactEmail === 'string' ? overrides.mapContactEmail : base.mapContactEmail,
+});
+
+export const getConfig = () => currentConfig;
+
+// The app waits for config.json before rendering, so a stalled request must not hold it up for long.
+const RUNTIME_CONFIG_TIMEOUT_MS = 3000;
+
+export const loadRuntimeConfig = async () => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), RUNTIME_CONFIG_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${process.env.PUBLIC_URL}/config.json`, { cache: 'no-store', signal: controller.signal });
+    if (response.ok) {
+      const overrides = await response.json();
+      if (overrides && typeof overrides === 'object') {
+        currentConfig = mergeConfig(envConfig, overrides);
+      }
+    }
+  } catch (error) {
+    console.warn('Runtime config not loaded, using build-time settings:', error);
+  } finally {
+    clearTimeout(timeout);
+  }
+  return currentConfig;
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { sessionsService } from '../services';
+import { ApiError } from '../utils/apiError';
+import { tokenStorage } from '../utils/tokenStorage';
+import { AuthProvider, useAuth } from './AuthContext';
+
+const LogoutButton = () => {
+  const { user, logout } = useAuth();
+  return <button onClick={logout}>{user ? `Log out ${user.email}` : 'Signed out'}</button>;
+};
+
+const renderSignedIn = () => {
+  localStorage.setItem('user', JSON.stringify({ id: 2, email: 'user@example.com', username: 'user', role: 'user' }));
+  tokenStorage.setTokens('access-token', 'refresh-token');
+  render(
+    <MemoryRouter>
+      <AuthProvider>
+        <LogoutButton />
+      </AuthProvider>
+    </MemoryRouter>
+  );
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  // jsdom can't follow the redirect to /login and reports it as an error.
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('revokes the session on the server before clearing it locally', async () => {
+  const revokeCurrent = jest.spyOn(sessionsService, 'revokeCurrent').mockImplementation(async () => {
+    expect(tokenStorage.getRefreshToken()).toBe('refresh-token');
+    return { message: 'Signed out' };
+  });
+  renderSignedIn();
+
+  fireEvent.click(await screen.findByRole('button', { name: 'Log out user@example.com' }));
+
+  expect(await screen.findByRole('button', { name: 'Signed out' })).toBeInTheDocument();
+  expect(revokeCurrent).toHaveBeenCalledTimes(1);
+  expect(tokenStorage.getRefreshToken()).toBeNull();
+});
+
+test('still signs out locally when the server cannot be reached', async () => {
+  jest.spyOn(sessionsService, 'revokeCurrent')
+    .mockRejectedValue(new ApiError({ code: 'NETWORK_ERROR', message: 'Unable to reach the server' }));
+  renderSignedIn();
+
+  fireEvent.click(await screen.findByRole('button', { name: 'Log out user@example.com' }));
+
+  await waitFor(() => expect(tokenStorage.getAccessToken()).toBeNull());
+  expect(localStorage.getItem('user')).toBeNull();
+  expect(screen.getByRole('button', { name: 'Signed out' })).toBeInTheDocument();
+});
@@ -1,56 +1,130 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-interface User {
-  id: number;
-  email: string;
-  role: string;
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { sessionsService } from '../services';
+import { User } from '../types';
+import { setSessionExpiredHandler } from '../utils/api';
+import { clearQueryCache } from '../utils/queryCache';
+import { hasPermission, Permission } from '../utils/permissions';
+import { buildLoginRedirectState } from '../utils/redirect';
+import { isTokenExpired } from '../utils/token';
+import { tokenStorage } from '../utils/tokenStorage';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (user: User, token: string) => void;
-  logout: () => void;
+  login: (user: User, token: string, refreshToken?: string | null) => void;
+  logout: () => Promise<void>;
+  updateUser: (user: User) => void;
+  can: (permission: Permission | Permission[]) => boolean;
+  emailVerified: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const USER_STORAGE_KEY = 'user';
+
+const readStoredUser = (): User | null => {
+  const storedUser = localStorage.getItem(USER_STORAGE_KEY);
+  if (!storedUser || !tokenStorage.getAccessToken()) return null;
+  try {
+    return JSON.parse(storedUser);
+  } catch {
+    return null;
+  }
+};
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+
+  const clearSession = useCallback(() => {
+    setUser(null);
+    localStorage.removeItem(USER_STORAGE_KEY);
+    tokenStorage.clear();
+    clearQueryCache();
+  }, []);
 
   useEffect(() => {
-    const storedUser = localStorage.getItem('user');
-    const token = localStorage.getItem('token');
+    const storedUser = localStorage.getItem(USER_STORAGE_KEY);
+    const token = tokenStorage.getAccessToken();
+    const refreshToken = tokenStorage.getRefreshToken();
+    const canRefresh = Boolean(refreshToken && !isTokenExpired(refreshToken, 0));
     
-    if (storedUser && token) {
+    if (token && isTokenExpired(token) && !canRefresh) {
+      localStorage.removeItem(USER_STORAGE_KEY);
+      tokenStorage.clear();
+    } else if (storedUser && token) {
       try {
         const userData = JSON.parse(storedUser);
         setUser(userData);
       } catch (error) {
         console.error('Can not take user data:', error);
-        localStorage.removeItem('user');
-        localStorage.removeItem('token');
+        localStorage.removeItem(USER_STORAGE_KEY);
+        tokenStorage.clear();
       }
     }
     setLoading(false);
   }, []);
 
-  const login = (user: User, token: string) => {
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== null && event.key !== USER_STORAGE_KEY && !tokenStorage.isTokenKey(event.key)) return;
+      const nextUser = readStoredUser();
+      const currentUser = userRef.current;
+      if (currentUser?.id !== nextUser?.id || currentUser?.role !== nextUser?.role) {
+        clearQueryCache();
+      }
+      setUser(nextUser);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    setSessionExpiredHandler((reason) => {
+      if (!tokenStorage.getAccessToken()) return;
+      clearSession();
+      const state = buildLoginRedirectState(window.location, { reason });
+      navigate('/login', { replace: true, state });
+    });
+    return () => setSessionExpiredHandler(null);
+  }, [clearSession, navigate]);
+
+  const login = (user: User, token: string, refreshToken?: string | null) => {
     setUser(user);
-    localStorage.setItem('user', JSON.stringify(user));
-    localStorage.setItem('token', token);
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+    tokenStorage.clear();
+    tokenStorage.setTokens(token, refreshToken);
+    clearQueryCache();
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('user');
-    localStorage.removeItem('token');
+  const updateUser = useCallback((nextUser: User) => {
+    setUser(nextUser);
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(nextUser));
+  }, []);
+
+  const logout = async () => {
+    if (tokenStorage.getAccessToken()) {
+      try {
+        await sessionsService.revokeCurrent();
+      } catch (error) {
+        // Signing out locally still has to work when the server can't be reached.
+        console.warn('Could not revoke the session on the server:', error);
+      }
+    }
+    clearSession();
     window.location.href = '/login';
   };
 
+  const emailVerified = user?.emailVerified !== false;
+  const can = useCallback((permission: Permission | Permission[]) => hasPermission(user, permission), [user]);
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout }}>
+    <AuthContext.Provider value={{ user, loading, login, logout, updateUser, can, emailVerified }}>
       {children}
     </AuthContext.Provider>
   );
@@ -60,4 +134,9 @@ export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) throw new Error('useAuth must be used within AuthProvider');
   return context;
-}; 
\ No newline at end of file
+};
+
+export const useCan = (permission: Permission | Permission[]) => {
+  const { can } = useAuth();
+  return can(permission);
+};
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export const useCooldown = () => {
+  const [until, setUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (until <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= until) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  const start = useCallback((seconds: number) => {
+    setNow(Date.now());
+    setUntil(Date.now() + seconds * 1000);
+  }, []);
+
+  const remaining = Math.max(0, Math.ceil((until - now) / 1000));
+  return { remaining, active: remaining > 0, start };
+};
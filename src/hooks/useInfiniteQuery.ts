@@ -0,0 +1,65 @@
+import { useCallback, useRef, useState } from 'react';
+import { Page } from '../types';
+import { getQueryData, QueryKey, setQueryData } from '../utils/queryCache';
+import { useQuery } from './useQuery';
+
+interface UseInfiniteQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export const useInfiniteQuery = <T>(
+  key: QueryKey,
+  fetchPage: (page: number) => Promise<Page<T>>,
+  options: UseInfiniteQueryOptions = {}
+) => {
+  // A background refetch reloads every page already on screen so the list keeps its length.
+  const result = useQuery<Page<T>[]>(key, async () => {
+    const loaded = getQueryData<Page<T>[]>(key)?.length || 1;
+    const pages: Page<T>[] = [];
+    for (let page = 1; page <= loaded; page += 1) {
+      pages.push(await fetchPage(page));
+    }
+    return pages;
+  }, options);
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const [nextPageError, setNextPageError] = useState<unknown>(null);
+  const fetchingRef = useRef(false);
+  const keyRef = useRef(key);
+  const fetchPageRef = useRef(fetchPage);
+  keyRef.current = key;
+  fetchPageRef.current = fetchPage;
+
+  const pages = result.data ?? [];
+  const lastPage = pages[pages.length - 1];
+  const hasNextPage = Boolean(lastPage && lastPage.page * lastPage.pageSize < lastPage.total);
+  const nextPage = lastPage ? lastPage.page + 1 : 1;
+  const { isFetching } = result;
+
+  const fetchNextPage = useCallback(async () => {
+    if (!hasNextPage || isFetching || fetchingRef.current) return;
+    const targetKey = keyRef.current;
+    fetchingRef.current = true;
+    setIsFetchingNextPage(true);
+    setNextPageError(null);
+    try {
+      const page = await fetchPageRef.current(nextPage);
+      setQueryData<Page<T>[]>(targetKey, previous => [...(previous ?? []), page]);
+    } catch (error) {
+      setNextPageError(error);
+    } finally {
+      fetchingRef.current = false;
+      setIsFetchingNextPage(false);
+    }
+  }, [hasNextPage, isFetching, nextPage]);
+
+  return {
+    ...result,
+    items: pages.flatMap(page => page.items),
+    total: lastPage?.total ?? 0,
+    hasNextPage,
+    isFetchingNextPage,
+    nextPageError,
+    fetchNextPage,
+  };
+};
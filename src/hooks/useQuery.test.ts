@@ -0,0 +1,49 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { clearQueryCache, setQueryData } from '../utils/queryCache';
+import { useQuery } from './useQuery';
+
+afterEach(() => {
+  clearQueryCache();
+});
+
+test('does not refetch when re-rendered with an equal inline key', async () => {
+  const fetcher = jest.fn().mockResolvedValue(['Harbour View']);
+  const { result, rerender } = renderHook(({ page }) => useQuery(['hotels', { page }], fetcher), {
+    initialProps: { page: 1 },
+  });
+
+  await waitFor(() => expect(result.current.data).toEqual(['Harbour View']));
+  rerender({ page: 1 });
+  rerender({ page: 1 });
+
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('follows the key when it changes', async () => {
+  const fetcher = jest.fn((page: number) => Promise.resolve(`page ${page}`));
+  const { result, rerender } = renderHook(({ page }) => useQuery(['hotels', { page }], () => fetcher(page)), {
+    initialProps: { page: 1 },
+  });
+  await waitFor(() => expect(result.current.data).toBe('page 1'));
+
+  rerender({ page: 2 });
+
+  await waitFor(() => expect(result.current.data).toBe('page 2'));
+  act(() => {
+    setQueryData(['hotels', { page: 2 }], 'edited');
+  });
+  expect(result.current.data).toBe('edited');
+});
+
+test('waits until enabled', async () => {
+  const fetcher = jest.fn().mockResolvedValue('favorites');
+  const { result, rerender } = renderHook(({ enabled }) => useQuery(['favorites'], fetcher, { enabled }), {
+    initialProps: { enabled: false },
+  });
+
+  expect(fetcher).not.toHaveBeenCalled();
+  expect(result.current.isLoading).toBe(false);
+
+  rerender({ enabled: true });
+  await waitFor(() => expect(result.current.data).toBe('favorites'));
+});
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  hashKey,
+  QueryKey,
+  subscribeQuery,
+} from '../utils/queryCache';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME }: UseQueryOptions = {}
+) => {
+  const hash = hashKey(key);
+  // Callers usually build the key inline; keep the previous array while its hash is unchanged
+  // so the subscription and fetch effect only restart when the key really changes.
+  const keyRef = useRef(key);
+  if (hashKey(keyRef.current) !== hash) {
+    keyRef.current = key;
+  }
+  const stableKey = keyRef.current;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(stableKey, listener),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(stableKey));
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery(stableKey, () => fetcherRef.current(), { staleTime }).catch(() => undefined);
+  }, [stableKey, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => fetchQuery(stableKey, () => fetcherRef.current(), { staleTime, force: true }),
+    [stableKey, staleTime]
+  );
+
+  return {
+    ...state,
+    isLoading: enabled && (state.status === 'idle' || state.status === 'loading'),
+    refetch,
+  };
+};
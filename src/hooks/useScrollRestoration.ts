@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+
+const positions = new Map<string, number>();
+
+export const useScrollRestoration = (key: string, ready: boolean) => {
+  const restoredKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => positions.set(key, window.scrollY));
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!ready || restoredKey.current === key) return;
+    restoredKey.current = key;
+    const position = positions.get(key);
+    if (position) {
+      window.scrollTo(0, position);
+    }
+  }, [key, ready]);
+};
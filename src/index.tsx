@@ -3,15 +3,30 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { loadRuntimeConfig } from './config';
+import { selectMapProvider } from './maps';
+import { configureApi } from './utils/api';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+loadRuntimeConfig().then(async config => {
+  configureApi(config);
+  selectMapProvider(config.mapProvider);
+  if (config.useMockApi) {
+    try {
+      const { enableMockApi } = await import('./mocks');
+      enableMockApi();
+    } catch (error) {
+      console.error('Mock API could not be loaded, requests will go to the real server:', error);
+    }
+  }
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,34 @@
+import { Coordinates } from '../types';
+import { localMapProvider } from './local';
+import { osmMapProvider } from './osm';
+
+export interface MapProvider {
+  id: string;
+  // Returns null for providers without imagery; the map then draws a plain grid.
+  tileUrl: ((zoom: number, x: number, y: number) => string) | null;
+  attribution?: string;
+  maxZoom: number;
+  geocode: (address: string) => Promise<Coordinates | null>;
+}
+
+const providers = new Map<string, MapProvider>([
+  [osmMapProvider.id, osmMapProvider],
+  [localMapProvider.id, localMapProvider],
+]);
+
+let currentProvider: MapProvider = localMapProvider;
+
+export const registerMapProvider = (provider: MapProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const selectMapProvider = (id: string) => {
+  const provider = providers.get(id);
+  if (!provider) {
+    console.warn(`Unknown map provider "${id}", using ${currentProvider.id}`);
+    return;
+  }
+  currentProvider = provider;
+};
+
+export const getMapProvider = () => currentProvider;
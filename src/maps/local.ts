@@ -0,0 +1,32 @@
+import { Coordinates } from '../types';
+import { MapProvider } from './index';
+
+const CITIES: Record<string, Coordinates> = {
+  amsterdam: { latitude: 52.3676, longitude: 4.9041 },
+  banff: { latitude: 51.1784, longitude: -115.5708 },
+  beijing: { latitude: 39.9042, longitude: 116.4074 },
+  brisbane: { latitude: -27.4698, longitude: 153.0251 },
+  edinburgh: { latitude: 55.9533, longitude: -3.1883 },
+  kyoto: { latitude: 35.0116, longitude: 135.7681 },
+  london: { latitude: 51.5072, longitude: -0.1276 },
+  'new york': { latitude: 40.7128, longitude: -74.006 },
+  paris: { latitude: 48.8566, longitude: 2.3522 },
+  phuket: { latitude: 7.8804, longitude: 98.3923 },
+  queenstown: { latitude: -45.0312, longitude: 168.6626 },
+  shanghai: { latitude: 31.2304, longitude: 121.4737 },
+  sydney: { latitude: -33.8688, longitude: 151.2093 },
+  tokyo: { latitude: 35.6762, longitude: 139.6503 },
+  zermatt: { latitude: 46.0207, longitude: 7.7491 },
+};
+
+// Offline stand-in: no tile imagery and a fixed list of cities for address lookup.
+export const localMapProvider: MapProvider = {
+  id: 'local',
+  tileUrl: null,
+  maxZoom: 12,
+  geocode: async (address) => {
+    const text = address.toLowerCase();
+    const city = Object.keys(CITIES).find(name => text.includes(name));
+    return city ? CITIES[city] : null;
+  },
+};
@@ -0,0 +1,46 @@
+import { getConfig } from '../config';
+import { Coordinates } from '../types';
+import { MapProvider } from './index';
+
+// Nominatim's usage policy allows at most one request per second from an application.
+const GEOCODE_INTERVAL_MS = 1000;
+
+const geocodeCache = new Map<string, Coordinates | null>();
+let nextGeocodeAt = 0;
+
+const waitForGeocodeSlot = () => {
+  const now = Date.now();
+  const wait = Math.max(0, nextGeocodeAt - now);
+  nextGeocodeAt = now + wait + GEOCODE_INTERVAL_MS;
+  return new Promise(resolve => setTimeout(resolve, wait));
+};
+
+// Uses the public OpenStreetMap servers, so it is opt-in: set REACT_APP_MAP_PROVIDER=osm and a contact email.
+export const osmMapProvider: MapProvider = {
+  id: 'osm',
+  tileUrl: (zoom, x, y) => `https://tile.openstreetmap.org/${zoom}/${x}/${y}.png`,
+  attribution: '© OpenStreetMap contributors',
+  maxZoom: 18,
+  geocode: async (address) => {
+    const key = address.trim().toLowerCase();
+    if (geocodeCache.has(key)) {
+      return geocodeCache.get(key) ?? null;
+    }
+    const params = new URLSearchParams({ q: address, format: 'json', limit: '1' });
+    const { mapContactEmail } = getConfig();
+    if (mapContactEmail) {
+      params.set('email', mapContactEmail);
+    }
+    await waitForGeocodeSlot();
+    const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error('Address lookup failed, please place the pin manually');
+    }
+    const [result] = await response.json();
+    const position = result ? { latitude: Number(result.lat), longitude: Number(result.lon) } : null;
+    geocodeCache.set(key, position);
+    return position;
+  },
+};
@@ -0,0 +1,45 @@
+import { fitBounds, MIN_ZOOM, project, TILE_SIZE, unproject } from './projection';
+
+const SYDNEY = { latitude: -33.8688, longitude: 151.2093 };
+const LONDON = { latitude: 51.5072, longitude: -0.1276 };
+
+test('projects the map centre to the middle of the world at any zoom', () => {
+  expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: TILE_SIZE / 2, y: TILE_SIZE / 2 });
+  expect(project({ latitude: 0, longitude: 0 }, 3)).toEqual({ x: TILE_SIZE * 4, y: TILE_SIZE * 4 });
+});
+
+test('round-trips coordinates through the projection', () => {
+  [SYDNEY, LONDON, { latitude: 70, longitude: -179.5 }].forEach(position => {
+    const back = unproject(project(position, 10), 10);
+    expect(back.latitude).toBeCloseTo(position.latitude, 6);
+    expect(back.longitude).toBeCloseTo(position.longitude, 6);
+  });
+});
+
+test('clamps latitudes beyond the Web Mercator limit', () => {
+  expect(project({ latitude: 90, longitude: 0 }, 1).y).toBeCloseTo(0, 3);
+  expect(project({ latitude: -90, longitude: 0 }, 1).y).toBeCloseTo(TILE_SIZE * 2, 3);
+});
+
+test('zooms in as far as allowed on a single point', () => {
+  expect(fitBounds([SYDNEY], 800, 480, 14)).toEqual({ center: expect.any(Object), zoom: 14 });
+});
+
+test('picks a zoom that fits every point inside the viewport', () => {
+  const nearby = [SYDNEY, { latitude: -33.7, longitude: 151.3 }];
+  const { center, zoom } = fitBounds(nearby, 800, 480, 14);
+  const topLeft = project({ latitude: -33.7, longitude: 151.2093 }, zoom);
+  const bottomRight = project({ latitude: -33.8688, longitude: 151.3 }, zoom);
+
+  expect(zoom).toBeLessThan(14);
+  expect(bottomRight.x - topLeft.x).toBeLessThanOrEqual(800 * 0.8);
+  expect(bottomRight.y - topLeft.y).toBeLessThanOrEqual(480 * 0.8);
+  expect(center.latitude).toBeGreaterThan(-33.8688);
+  expect(center.latitude).toBeLessThan(-33.7);
+});
+
+test('never fits below the zoom the map controls allow', () => {
+  expect(fitBounds([SYDNEY, LONDON], 200, 120, 14).zoom).toBe(MIN_ZOOM);
+  expect(fitBounds([], 800, 480, 14).zoom).toBe(MIN_ZOOM);
+  expect(fitBounds([SYDNEY], 800, 480, 0).zoom).toBe(MIN_ZOOM);
+});
@@ -0,0 +1,58 @@
+import { Coordinates } from '../types';
+
+export const TILE_SIZE = 256;
+
+// Zoom 0 is a single tile narrower than most maps, so neither fitting nor the zoom buttons go below 1.
+export const MIN_ZOOM = 1;
+
+const MAX_LATITUDE = 85.0511;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const project = ({ latitude, longitude }: Coordinates, zoom: number): Point => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+export const unproject = ({ x, y }: Point, zoom: number): Coordinates => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: ((((x / scale) * 360) % 360) + 360) % 360 - 180,
+  };
+};
+
+// Picks the closest zoom that fits every point into the viewport, with some padding.
+export const fitBounds = (points: Coordinates[], width: number, height: number, maxZoom: number) => {
+  if (points.length === 0) {
+    return { center: { latitude: 20, longitude: 0 }, zoom: MIN_ZOOM };
+  }
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+  let zoom = Math.max(MIN_ZOOM, maxZoom);
+  while (zoom > MIN_ZOOM) {
+    const topLeft = project({ latitude: north, longitude: west }, zoom);
+    const bottomRight = project({ latitude: south, longitude: east }, zoom);
+    if (bottomRight.x - topLeft.x <= width * 0.8 && bottomRight.y - topLeft.y <= height * 0.8) break;
+    zoom -= 1;
+  }
+  const topLeft = project({ latitude: north, longitude: west }, zoom);
+  const bottomRight = project({ latitude: south, longitude: east }, zoom);
+  return {
+    center: unproject({ x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 }, zoom),
+    zoom,
+  };
+};
@@ -0,0 +1,103 @@
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { mockAdapter } from './adapter';
+import { getDb, resetDb, saveDb } from './db';
+import { issueTokens } from './session';
+
+const send = (method: string, url: string, data?: unknown, token?: string) =>
+  mockAdapter({
+    method,
+    url,
+    data: data === undefined || typeof data === 'string' ? data : JSON.stringify(data),
+    headers: new AxiosHeaders(token ? { Authorization: `Bearer ${token}` } : {}),
+    validateStatus: null,
+  } as unknown as InternalAxiosRequestConfig);
+
+const stored = () => JSON.parse(localStorage.getItem('mockApiDb') || '{}');
+
+const loginTokens = async () => {
+  const response = await send('post', '/auth/login', { email: 'user@example.com', password: 'password123' });
+  return response.data as { token: string; refreshToken: string };
+};
+
+const login = async () => (await loginTokens()).token;
+
+beforeEach(() => {
+  localStorage.clear();
+  resetDb();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+test('answers unknown routes with 404', async () => {
+  await expect(send('get', '/nowhere')).resolves.toMatchObject({ status: 404 });
+});
+
+test.each([
+  ['malformed JSON', '{"email":'],
+  ['a JSON array', JSON.stringify(['user@example.com'])],
+  ['no body', undefined],
+])('treats %s as an empty body instead of failing', async (_, data) => {
+  const response = await send('post', '/auth/login', data);
+
+  expect(response.status).toBe(401);
+  expect(console.error).not.toHaveBeenCalled();
+});
+
+test('persists session activity recorded by reads', async () => {
+  const token = await login();
+  const [session] = stored().sessions;
+
+  await send('get', '/profile', undefined, token);
+
+  expect(stored().sessions[0].lastSeenAt > session.lastSeenAt).toBe(true);
+});
+
+test('keeps rejected login attempts after the request fails', async () => {
+  await send('post', '/auth/login', { email: 'user@example.com', password: 'wrong' });
+
+  expect(stored().loginAttempts).toHaveLength(1);
+});
+
+test('builds on changes another tab saved in the meantime', async () => {
+  const token = await login();
+  const otherTab = stored();
+  otherTab.favorites.push({ userId: 2, hotelId: 3 });
+  localStorage.setItem('mockApiDb', JSON.stringify(otherTab));
+
+  await send('post', '/favorites', { hotelId: 4 }, token);
+
+  expect(stored().favorites).toEqual(expect.arrayContaining([{ userId: 2, hotelId: 3 }, { userId: 2, hotelId: 4 }]));
+  expect(getDb().favorites).toHaveLength(stored().favorites.length);
+});
+
+test('revokes the current session so its refresh token stops working', async () => {
+  const { token, refreshToken } = await loginTokens();
+
+  await expect(send('delete', '/sessions/current', undefined, token)).resolves.toMatchObject({ status: 200 });
+
+  const refresh = await send('post', '/auth/refresh', { refreshToken });
+  expect(refresh).toMatchObject({ status: 401, data: { code: 'SESSION_REVOKED' } });
+  expect(stored().sessions[0].revoked).toBe(true);
+});
+
+test('stores the room count operators still send as availableRooms', async () => {
+  // Operators have to pass two-factor sign-in, so the test issues their token directly.
+  const { token } = issueTokens(getDb().users.find(user => user.email === 'operator@example.com')!);
+  saveDb();
+  const hotel = { name: 'Pier Hotel', address: '9 Pier Rd, Sydney', price: 300, availableRooms: 7 };
+
+  const created = await send('post', '/hotels', hotel, token);
+  const fetched = await send('get', `/hotels/${created.data.id}`);
+
+  expect(fetched.data).toMatchObject({ totalRooms: 7, availableRooms: 7 });
+});
+
+test('matches email addresses regardless of case when logging in and registering', async () => {
+  const login = await send('post', '/auth/login', { email: ' User@Example.com ', password: 'password123' });
+  expect(login).toMatchObject({ status: 200, data: { user: { email: 'user@example.com' } } });
+
+  const duplicate = await send('post', '/auth/register', { email: 'USER@example.com', password: 'Another-passw0rd!' });
+  expect(duplicate).toMatchObject({ status: 409, data: { code: 'EMAIL_TAKEN' } });
+
+  await send('post', '/auth/register', { email: 'New.Guest@Example.com', password: 'Another-passw0rd!' });
+  expect(stored().users).toEqual(expect.arrayContaining([expect.objectContaining({ email: 'new.guest@example.com' })]));
+});
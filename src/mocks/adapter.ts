@@ -0,0 +1,104 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { reloadDb, saveDb } from './db';
+import { routes } from './handlers';
+import { matchRoute, MockBody, MockHttpError, MockMethod, MockResponse } from './router';
+
+const MOCK_LATENCY_MS = 250;
+
+let requestCounter = 0;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parseUrl = (config: InternalAxiosRequestConfig) => {
+  const url = new URL(config.url || '/', 'http://mock.local/');
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
+  Object.entries(config.params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      query[key] = String(value);
+    }
+  });
+  return { path: url.pathname, query };
+};
+
+const isBody = (value: unknown): value is MockBody =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseBody = (data: unknown): MockBody => {
+  if (typeof data !== 'string') return isBody(data) ? data : {};
+  try {
+    const parsed: unknown = JSON.parse(data);
+    return isBody(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const readHeaders = (config: InternalAxiosRequestConfig) => {
+  const headers: Record<string, string> = {};
+  Object.entries(AxiosHeaders.from(config.headers).toJSON()).forEach(([key, value]) => {
+    headers[key.toLowerCase()] = String(value);
+  });
+  return headers;
+};
+
+const dispatch = async (config: InternalAxiosRequestConfig): Promise<MockResponse> => {
+  const method = (config.method || 'get').toLowerCase() as MockMethod;
+  const { path, query } = parseUrl(config);
+  const match = matchRoute(routes, method, path);
+  if (!match) {
+    return { status: 404, data: { message: `No mock handler for ${method.toUpperCase()} ${path}` } };
+  }
+
+  reloadDb();
+  try {
+    return await match.route.handler({
+      method,
+      path,
+      params: match.params,
+      query,
+      body: parseBody(config.data),
+      headers: readHeaders(config),
+    });
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return { status: error.status, data: error.data };
+    }
+    console.error('Mock handler failed:', error);
+    return { status: 500, data: { message: 'Internal mock server error' } };
+  } finally {
+    // Reads touch session activity and rejected logins are counted, so every request is written back.
+    saveDb();
+  }
+};
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await wait(MOCK_LATENCY_MS);
+  const result = await dispatch(config);
+  const response: AxiosResponse = {
+    data: result.data ?? '',
+    status: result.status,
+    statusText: String(result.status),
+    headers: new AxiosHeaders({
+      'content-type': 'application/json',
+      'x-request-id': `mock-${Date.now().toString(36)}-${++requestCounter}`,
+      ...result.headers,
+    }),
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus;
+  if (!validateStatus || validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
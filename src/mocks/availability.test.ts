@@ -0,0 +1,103 @@
+import { BookingStatus } from '../types';
+import { localToday } from '../utils/hotelSearch';
+import { availabilityByDate, availableRoomsFor, countNights, quoteStay, roomsForGuests, roomsFreeTonight } from './availability';
+import { getDb, MockHotelRecord, resetDb } from './db';
+
+const hotel: MockHotelRecord = {
+  id: 900,
+  name: 'Test Lodge',
+  address: '1 Test St',
+  description: '',
+  price: 100,
+  totalRooms: 4,
+  operatorId: 2,
+};
+
+const book = (checkInDate: string, checkOutDate: string, guestCount: number, status: BookingStatus = 'confirmed') => {
+  const { bookings } = getDb();
+  bookings.push({
+    id: 9000 + bookings.length,
+    userId: 1,
+    hotelId: hotel.id,
+    checkInDate,
+    checkOutDate,
+    guestCount,
+    totalPrice: 0,
+    status,
+    specialRequests: '',
+    createdAt: '2030-01-01T00:00:00.000Z',
+  });
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  resetDb();
+  getDb().hotels.push(hotel);
+});
+
+test('counts nights between two dates', () => {
+  expect(countNights('2030-03-01', '2030-03-04')).toBe(3);
+  expect(countNights('2030-03-31', '2030-04-01')).toBe(1);
+  expect(countNights('2030-03-04', '2030-03-04')).toBe(0);
+});
+
+test('needs one room for every two guests', () => {
+  expect([1, 2, 3, 4, 5, 10].map(roomsForGuests)).toEqual([1, 1, 2, 2, 3, 5]);
+});
+
+test('only takes rooms on the nights a booking covers', () => {
+  book('2030-03-01', '2030-03-03', 3);
+  book('2030-03-02', '2030-03-04', 1);
+
+  expect(availabilityByDate(hotel, '2030-02-28', '2030-03-05')).toEqual([
+    { date: '2030-02-28', availableRooms: 4 },
+    { date: '2030-03-01', availableRooms: 2 },
+    { date: '2030-03-02', availableRooms: 1 },
+    { date: '2030-03-03', availableRooms: 3 },
+    { date: '2030-03-04', availableRooms: 4 },
+  ]);
+  // Checking in on another booking's check-out day doesn't clash with it.
+  expect(availableRoomsFor(hotel, '2030-03-04', '2030-03-06')).toBe(4);
+});
+
+test('uses the busiest night of the stay rather than adding up every overlapping booking', () => {
+  book('2030-03-01', '2030-03-02', 4);
+  book('2030-03-02', '2030-03-03', 4);
+
+  expect(availableRoomsFor(hotel, '2030-03-01', '2030-03-03')).toBe(2);
+});
+
+test('ignores cancelled and completed bookings', () => {
+  book('2030-03-01', '2030-03-03', 8, 'cancelled');
+  book('2030-03-01', '2030-03-03', 8, 'completed');
+
+  expect(availableRoomsFor(hotel, '2030-03-01', '2030-03-03')).toBe(4);
+});
+
+test('quotes every room for every night of the stay', () => {
+  book('2030-03-02', '2030-03-03', 5);
+
+  expect(quoteStay(hotel, '2030-03-01', '2030-03-04', 3)).toEqual({
+    checkInDate: '2030-03-01',
+    checkOutDate: '2030-03-04',
+    nights: 3,
+    guests: 3,
+    rooms: 2,
+    availableRooms: 1,
+    availabilityByDate: [
+      { date: '2030-03-01', availableRooms: 4 },
+      { date: '2030-03-02', availableRooms: 1 },
+      { date: '2030-03-03', availableRooms: 4 },
+    ],
+    nightlyPrice: 200,
+    totalPrice: 600,
+  });
+});
+
+test('reports tonight as the rooms not taken by a stay covering today', () => {
+  const today = localToday();
+  book(today, '2999-01-01', 2);
+  book('2000-01-01', today, 2);
+
+  expect(roomsFreeTonight(hotel)).toBe(3);
+});
@@ -0,0 +1,58 @@
+import { HotelStay, NightAvailability } from '../types';
+import { localToday } from '../utils/hotelSearch';
+import { getDb, MockHotelRecord } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GUESTS_PER_ROOM = 2;
+
+export const countNights = (checkInDate: string, checkOutDate: string) =>
+  Math.round((Date.parse(checkOutDate) - Date.parse(checkInDate)) / DAY_MS);
+
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const roomsForGuests = (guests: number) => Math.max(1, Math.ceil((Number(guests) || 1) / GUESTS_PER_ROOM));
+
+// `totalRooms` is the hotel's inventory; a booking only takes rooms on the nights it covers.
+const roomsFreeOn = (hotel: MockHotelRecord, date: string) => {
+  const booked = getDb().bookings
+    .filter(booking =>
+      booking.hotelId === hotel.id
+      && (booking.status === 'pending' || booking.status === 'confirmed')
+      && booking.checkInDate <= date
+      && booking.checkOutDate > date
+    )
+    .reduce((rooms, booking) => rooms + roomsForGuests(booking.guestCount), 0);
+  return Math.max(0, hotel.totalRooms - booked);
+};
+
+export const availabilityByDate = (hotel: MockHotelRecord, checkInDate: string, checkOutDate: string): NightAvailability[] =>
+  Array.from({ length: Math.max(0, countNights(checkInDate, checkOutDate)) }, (_, night) => {
+    const date = addDays(checkInDate, night);
+    return { date, availableRooms: roomsFreeOn(hotel, date) };
+  });
+
+const fewestFree = (hotel: MockHotelRecord, nights: NightAvailability[]) =>
+  Math.min(hotel.totalRooms, ...nights.map(night => night.availableRooms));
+
+export const availableRoomsFor = (hotel: MockHotelRecord, checkInDate: string, checkOutDate: string) =>
+  fewestFree(hotel, availabilityByDate(hotel, checkInDate, checkOutDate));
+
+export const roomsFreeTonight = (hotel: MockHotelRecord) => roomsFreeOn(hotel, localToday());
+
+export const quoteStay = (hotel: MockHotelRecord, checkInDate: string, checkOutDate: string, guests: number): HotelStay => {
+  const nights = countNights(checkInDate, checkOutDate);
+  const rooms = roomsForGuests(guests);
+  const byDate = availabilityByDate(hotel, checkInDate, checkOutDate);
+  return {
+    checkInDate,
+    checkOutDate,
+    nights,
+    guests,
+    rooms,
+    availableRooms: fewestFree(hotel, byDate),
+    availabilityByDate: byDate,
+    nightlyPrice: hotel.price * rooms,
+    totalPrice: hotel.price * rooms * nights,
+  };
+};
@@ -0,0 +1,299 @@
+import { BookingStatus, Hotel, Role, User } from '../types';
+
+export interface MockUserRecord extends User {
+  password: string;
+  twoFactorSecret?: string | null;
+  twoFactorPendingSecret?: string | null;
+  backupCodes?: string[];
+}
+
+export interface MockHotelRecord extends Omit<Hotel, 'availableRooms' | 'stay'> {
+  totalRooms: number;
+  description: string;
+  operatorId: number;
+}
+
+export interface MockBookingRecord {
+  id: number;
+  userId: number;
+  hotelId: number;
+  checkInDate: string;
+  checkOutDate: string;
+  guestCount: number;
+  totalPrice: number;
+  status: BookingStatus;
+  specialRequests: string;
+  createdAt: string;
+}
+
+export interface MockFavoriteRecord {
+  userId: number;
+  hotelId: number;
+}
+
+export interface MockTokenRecord {
+  token: string;
+  userId: number;
+  expiresAt: number;
+  used: boolean;
+}
+
+export interface MockSessionRecord {
+  id: string;
+  userId: number;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  revoked: boolean;
+}
+
+export interface MockInvitationRecord {
+  id: number;
+  token: string;
+  email: string;
+  role: Role;
+  invitedBy: number;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface MockLoginAttemptRecord {
+  email: string;
+  failures: number;
+  lockedUntil: number;
+  captcha: { id: string; answer: string } | null;
+}
+
+export interface MockDatabase {
+  users: MockUserRecord[];
+  hotels: MockHotelRecord[];
+  bookings: MockBookingRecord[];
+  favorites: MockFavoriteRecord[];
+  passwordResets: MockTokenRecord[];
+  emailVerifications: MockTokenRecord[];
+  twoFactorChallenges: MockTokenRecord[];
+  sessions: MockSessionRecord[];
+  invitations: MockInvitationRecord[];
+  loginAttempts: MockLoginAttemptRecord[];
+}
+
+const STORAGE_KEY = 'mockApiDb';
+
+const seed = (): MockDatabase => ({
+  users: [
+    { id: 1, email: 'operator@example.com', password: 'password123', emailVerified: true, role: 'operator' },
+    { id: 2, email: 'user@example.com', password: 'password123', emailVerified: true, role: 'user' },
+    { id: 3, email: 'partner@example.com', password: 'password123', emailVerified: true, role: 'operator' },
+    { id: 4, email: 'admin@example.com', password: 'password123', emailVerified: true, role: 'admin' },
+    { id: 5, email: 'staff@example.com', password: 'password123', emailVerified: true, role: 'staff' },
+    { id: 6, email: 'auditor@example.com', password: 'password123', emailVerified: true, role: 'auditor' },
+  ],
+  hotels: [
+    {
+      id: 1,
+      name: 'Harbour View Hotel',
+      address: '12 Marina Road, Sydney',
+      description: 'Waterfront rooms with views over the harbour bridge.',
+      price: 880,
+      totalRooms: 12,
+      operatorId: 1,
+      latitude: -33.8523,
+      longitude: 151.2108,
+    },
+    {
+      id: 2,
+      name: 'Old Town Guesthouse',
+      address: '5 Castle Lane, Edinburgh',
+      description: 'A quiet guesthouse a short walk from the Royal Mile.',
+      price: 420,
+      totalRooms: 4,
+      operatorId: 1,
+      latitude: 55.9486,
+      longitude: -3.1999,
+    },
+    {
+      id: 3,
+      name: 'Lakeside Lodge',
+      address: '88 Shore Drive, Queenstown',
+      description: 'Timber lodge on the lake, with kayaks available for guests.',
+      price: 650,
+      totalRooms: 0,
+      operatorId: 3,
+      latitude: -45.0312,
+      longitude: 168.6626,
+    },
+    {
+      id: 4,
+      name: 'City Central Inn',
+      address: '200 Nanjing Road, Shanghai',
+      description: 'Compact rooms next to the metro, ideal for business trips.',
+      price: 360,
+      totalRooms: 25,
+      operatorId: 3,
+      latitude: 31.2354,
+      longitude: 121.4737,
+    },
+    {
+      id: 5,
+      name: 'Canal House Suites',
+      address: '41 Herengracht, Amsterdam',
+      description: 'Restored merchant house with canal-facing suites.',
+      price: 720,
+      totalRooms: 6,
+      operatorId: 1,
+      latitude: 52.3731,
+      longitude: 4.884,
+    },
+    {
+      id: 6,
+      name: 'Alpine Rest',
+      address: '3 Bahnhofstrasse, Zermatt',
+      description: 'Family-run chalet with views of the Matterhorn.',
+      price: 980,
+      totalRooms: 3,
+      operatorId: 1,
+      latitude: 46.0207,
+      longitude: 7.7491,
+    },
+    {
+      id: 7,
+      name: 'Sakura Garden Ryokan',
+      address: '17 Gion, Kyoto',
+      description: 'Traditional rooms with tatami floors and an onsen bath.',
+      price: 1100,
+      totalRooms: 8,
+      operatorId: 1,
+      latitude: 35.0037,
+      longitude: 135.7788,
+    },
+    {
+      id: 8,
+      name: 'Riverside Hostel',
+      address: '9 Quay Street, Brisbane',
+      description: 'Budget dorms and private rooms by the river walk.',
+      price: 180,
+      totalRooms: 30,
+      operatorId: 1,
+      latitude: -27.4698,
+      longitude: 153.0251,
+    },
+    {
+      id: 9,
+      name: 'Sunset Bay Resort',
+      address: '1 Beach Road, Phuket',
+      description: 'Beachfront villas with a pool overlooking the bay.',
+      price: 950,
+      totalRooms: 15,
+      operatorId: 1,
+      latitude: 7.8804,
+      longitude: 98.292,
+    },
+    {
+      id: 10,
+      name: 'Granite Peak Cabins',
+      address: '220 Summit Way, Banff',
+      description: 'Cosy cabins at the foot of the Rockies.',
+      price: 540,
+      totalRooms: 5,
+      operatorId: 1,
+      latitude: 51.1784,
+      longitude: -115.5708,
+    },
+    {
+      id: 11,
+      name: 'Metro Park Hotel',
+      address: '75 Lexington Avenue, New York',
+      description: 'Modern rooms two blocks from Grand Central.',
+      price: 1280,
+      totalRooms: 20,
+      operatorId: 1,
+      latitude: 40.7527,
+      longitude: -73.9772,
+    },
+    {
+      id: 12,
+      name: 'Blue Door Bed & Breakfast',
+      address: '6 Rue des Rosiers, Paris',
+      description: 'Small B&B in the Marais with homemade breakfast.',
+      price: 610,
+      totalRooms: 2,
+      operatorId: 1,
+      latitude: 48.857,
+      longitude: 2.3599,
+    },
+  ],
+  bookings: [
+    {
+      id: 1,
+      userId: 2,
+      hotelId: 1,
+      checkInDate: '2025-08-01',
+      checkOutDate: '2025-08-04',
+      guestCount: 2,
+      totalPrice: 2640,
+      status: 'confirmed',
+      specialRequests: 'Late check-in',
+      createdAt: '2025-06-20T09:30:00.000Z',
+    },
+    {
+      id: 2,
+      userId: 2,
+      hotelId: 2,
+      checkInDate: '2025-09-10',
+      checkOutDate: '2025-09-12',
+      guestCount: 1,
+      totalPrice: 840,
+      status: 'pending',
+      specialRequests: '',
+      createdAt: '2025-06-22T14:05:00.000Z',
+    },
+  ],
+  favorites: [{ userId: 2, hotelId: 1 }],
+  passwordResets: [],
+  emailVerifications: [],
+  twoFactorChallenges: [],
+  sessions: [],
+  invitations: [],
+  loginAttempts: [],
+});
+
+let db: MockDatabase | null = null;
+
+// Databases saved before room inventory got its own field only have `availableRooms` on hotels.
+const migrateHotels = (hotels: (MockHotelRecord & { availableRooms?: number })[]) =>
+  hotels.map(({ availableRooms, ...hotel }) => ({ ...hotel, totalRooms: hotel.totalRooms ?? availableRooms ?? 0 }));
+
+export const getDb = (): MockDatabase => {
+  if (!db) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const loaded: MockDatabase = stored ? { ...seed(), ...JSON.parse(stored) } : seed();
+      db = { ...loaded, hotels: migrateHotels(loaded.hotels) };
+    } catch {
+      db = seed();
+    }
+  }
+  return db!;
+};
+
+// Another tab may have written since this one last read, so each request starts from storage.
+export const reloadDb = () => {
+  db = null;
+  return getDb();
+};
+
+export const saveDb = () => {
+  if (db) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  }
+};
+
+export const resetDb = () => {
+  db = seed();
+  saveDb();
+};
+
+export const nextId = (records: { id: number }[]) =>
+  records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
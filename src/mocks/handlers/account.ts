@@ -0,0 +1,54 @@
+import { getDb } from '../db';
+import { json, MockHttpError, MockRoute } from '../router';
+import { requireUser, toPublicUser } from '../session';
+import { toBookingResponse } from './bookings';
+import { toHotel } from './hotels';
+
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+export const accountRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/account/export',
+    handler: (request) => {
+      const user = requireUser(request);
+      const db = getDb();
+      const favoriteIds = db.favorites.filter(record => record.userId === user.id).map(record => record.hotelId);
+      return json({
+        exportedAt: new Date().toISOString(),
+        profile: toPublicUser(user),
+        favorites: db.hotels.filter(hotel => favoriteIds.includes(hotel.id)).map(hotel => toHotel(hotel)),
+        bookings: db.bookings.filter(record => record.userId === user.id).map(toBookingResponse),
+      });
+    },
+  },
+  {
+    method: 'delete',
+    path: '/account',
+    handler: (request) => {
+      const user = requireUser(request);
+      if (user.password !== request.body.password) {
+        throw new MockHttpError(400, 'Password is incorrect', { errors: { password: 'Password is incorrect' } });
+      }
+      const db = getDb();
+      const activeBookings = db.bookings.filter(
+        record => record.userId === user.id && ACTIVE_BOOKING_STATUSES.includes(record.status)
+      );
+      if (activeBookings.length > 0) {
+        throw new MockHttpError(409, 'Cancel or complete your pending and confirmed bookings before deleting your account', {
+          code: 'ACCOUNT_HAS_ACTIVE_BOOKINGS',
+        });
+      }
+      if (db.hotels.some(hotel => hotel.operatorId === user.id)) {
+        throw new MockHttpError(409, 'Transfer your hotels to another operator before deleting your account', {
+          code: 'ACCOUNT_OWNS_HOTELS',
+        });
+      }
+
+      db.users = db.users.filter(record => record.id !== user.id);
+      db.favorites = db.favorites.filter(record => record.userId !== user.id);
+      db.sessions = db.sessions.filter(record => record.userId !== user.id);
+      return json({ message: 'Account deleted' });
+    },
+  },
+];
@@ -0,0 +1,87 @@
+import { Role } from '../../types';
+import { getDb, MockUserRecord } from '../db';
+import { json, MockHttpError, MockRoute } from '../router';
+import { requireUser, toPublicUser } from '../session';
+import { ROLE_PERMISSIONS } from '../../utils/permissions';
+import { findHotel } from './hotels';
+
+const toAdminUser = (user: MockUserRecord) => ({
+  ...toPublicUser(user),
+  suspended: Boolean(user.suspended),
+  hotelCount: getDb().hotels.filter(hotel => hotel.operatorId === user.id).length,
+});
+
+const findUser = (id: string | number) => {
+  const user = getDb().users.find(record => record.id === Number(id));
+  if (!user) {
+    throw new MockHttpError(404, 'User not found');
+  }
+  return user;
+};
+
+export const adminRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/admin/users',
+    handler: (request) => {
+      requireUser(request, 'user:manage');
+      const search = (request.query.search || '').trim().toLowerCase();
+      const users = getDb().users.filter(user =>
+        !search ||
+        user.email.toLowerCase().includes(search) ||
+        (user.displayName || '').toLowerCase().includes(search)
+      );
+      return json(users.map(toAdminUser));
+    },
+  },
+  {
+    method: 'patch',
+    path: '/admin/users/:id',
+    handler: (request) => {
+      const admin = requireUser(request, 'user:manage');
+      const user = findUser(request.params.id);
+      const { role, suspended } = request.body;
+      if (user.id === admin.id) {
+        throw new MockHttpError(409, 'You cannot change your own role or suspend yourself');
+      }
+      if (role !== undefined) {
+        if (typeof role !== 'string' || !(role in ROLE_PERMISSIONS)) {
+          throw new MockHttpError(422, 'Role is invalid', { errors: { role: 'Please choose a valid role' } });
+        }
+        if (user.role === 'operator' && role !== 'operator' && getDb().hotels.some(hotel => hotel.operatorId === user.id)) {
+          throw new MockHttpError(409, 'Transfer this operator\'s hotels before changing their role', {
+            code: 'USER_OWNS_HOTELS',
+          });
+        }
+        user.role = role as Role;
+      }
+      if (suspended !== undefined) {
+        user.suspended = Boolean(suspended);
+      }
+      if (role !== undefined || user.suspended) {
+        getDb().sessions
+          .filter(session => session.userId === user.id)
+          .forEach(session => {
+            session.revoked = true;
+          });
+      }
+      return json(toAdminUser(user));
+    },
+  },
+  {
+    method: 'post',
+    path: '/admin/hotels/:id/transfer',
+    handler: (request) => {
+      requireUser(request, 'user:manage');
+      const hotel = findHotel(request.params.id);
+      const operator = getDb().users.find(record => record.id === Number(request.body.operatorId));
+      if (!operator || operator.role !== 'operator' || operator.suspended) {
+        throw new MockHttpError(422, 'Hotels can only be transferred to an active operator', {
+          errors: { operatorId: 'Please choose an active operator' },
+        });
+      }
+      hotel.operatorId = operator.id;
+      return json({ message: `${hotel.name} transferred to ${operator.email}` });
+    },
+  },
+];
@@ -0,0 +1,220 @@
+import { getDb, MockTokenRecord, MockUserRecord, nextId } from '../db';
+import { json, MockHttpError, MockRoute, text } from '../router';
+import { issueTokens, randomToken, requireUser, toPublicUser, verifyToken } from '../session';
+import { checkPassword } from '../../utils/passwordPolicy';
+import { findInvitation } from './invitations';
+import { assertLoginAllowed, clearLoginFailures, recordLoginFailure } from './loginThrottle';
+import { startTwoFactorChallenge } from './twoFactor';
+
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+const VERIFY_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Addresses match regardless of case or stray spaces, the same way the login throttle keys them.
+export const normalizeEmail = (value: unknown) => text(value).trim().toLowerCase();
+
+export const findUserByEmail = (email: string) =>
+  getDb().users.find(record => record.email.toLowerCase() === normalizeEmail(email));
+
+export const sendVerificationEmail = (user: MockUserRecord) => {
+  const token = randomToken();
+  getDb().emailVerifications.push({ token, userId: user.id, expiresAt: Date.now() + VERIFY_TOKEN_TTL_MS, used: false });
+  console.info(`[mock email] Verify ${user.email}: ${window.location.origin}/verify-email/${token}`);
+};
+
+const findVerifyToken = (token: string): MockTokenRecord => {
+  const record = getDb().emailVerifications.find(item => item.token === token);
+  if (!record) {
+    throw new MockHttpError(404, 'Verification link is not valid', { code: 'VERIFY_TOKEN_INVALID' });
+  }
+  if (record.used) {
+    throw new MockHttpError(410, 'Verification link has already been used', { code: 'VERIFY_TOKEN_USED' });
+  }
+  if (record.expiresAt <= Date.now()) {
+    throw new MockHttpError(410, 'Verification link has expired', { code: 'VERIFY_TOKEN_EXPIRED' });
+  }
+  return record;
+};
+
+const findResetToken = (token: string): MockTokenRecord => {
+  const record = getDb().passwordResets.find(item => item.token === token);
+  if (!record) {
+    throw new MockHttpError(404, 'Reset link is not valid', { code: 'RESET_TOKEN_INVALID' });
+  }
+  if (record.used) {
+    throw new MockHttpError(410, 'Reset link has already been used', { code: 'RESET_TOKEN_USED' });
+  }
+  if (record.expiresAt <= Date.now()) {
+    throw new MockHttpError(410, 'Reset link has expired', { code: 'RESET_TOKEN_EXPIRED' });
+  }
+  return record;
+};
+
+const assertPasswordPolicy = (password: unknown, email: string, field: string) => {
+  const result = checkPassword(typeof password === 'string' ? password : '', { email });
+  if (!result.valid) {
+    throw new MockHttpError(422, result.message || 'Password does not meet the requirements', {
+      code: 'WEAK_PASSWORD',
+      errors: { [field]: result.message },
+    });
+  }
+};
+
+export const authRoutes: MockRoute[] = [
+  {
+    method: 'post',
+    path: '/auth/login',
+    handler: async ({ body }) => {
+      const email = normalizeEmail(body.email);
+      assertLoginAllowed(email, text(body.captchaToken) || undefined);
+      const user = findUserByEmail(email);
+      if (!user || user.password !== body.password) {
+        throw recordLoginFailure(email);
+      }
+      clearLoginFailures(email);
+      if (user.suspended) {
+        throw new MockHttpError(403, 'This account has been suspended, please contact support', {
+          code: 'ACCOUNT_SUSPENDED',
+        });
+      }
+      const challenge = await startTwoFactorChallenge(user);
+      if (challenge) {
+        return json(challenge);
+      }
+      return json({ ...issueTokens(user), user: toPublicUser(user) });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/register',
+    handler: ({ body }) => {
+      const db = getDb();
+      const email = normalizeEmail(body.email);
+      const password = text(body.password);
+      if (findUserByEmail(email)) {
+        throw new MockHttpError(409, 'Email is already registered', {
+          code: 'EMAIL_TAKEN',
+          errors: { email: 'This email is already registered' },
+        });
+      }
+      assertPasswordPolicy(password, email, 'password');
+      const invitation = body.inviteToken ? findInvitation(text(body.inviteToken)) : null;
+      if (invitation && normalizeEmail(invitation.email) !== email) {
+        throw new MockHttpError(422, 'This invitation was sent to a different email address', {
+          errors: { email: `This invitation is for ${invitation.email}` },
+        });
+      }
+      const user: MockUserRecord = {
+        id: nextId(db.users),
+        email,
+        password,
+        role: invitation?.role ?? 'user',
+        emailVerified: Boolean(invitation),
+      };
+      db.users.push(user);
+      if (invitation) {
+        invitation.acceptedAt = new Date().toISOString();
+      } else {
+        sendVerificationEmail(user);
+      }
+      return json({ message: 'Registration successful' }, 201);
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/verify-email',
+    handler: ({ body }) => {
+      const record = findVerifyToken(text(body.token));
+      const user = getDb().users.find(item => item.id === record.userId);
+      if (!user) {
+        throw new MockHttpError(404, 'Verification link is not valid', { code: 'VERIFY_TOKEN_INVALID' });
+      }
+      user.emailVerified = true;
+      record.used = true;
+      return json({ message: 'Email verified', email: user.email });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/resend-verification',
+    handler: ({ body }) => {
+      const db = getDb();
+      const user = findUserByEmail(text(body.email));
+      if (user && user.emailVerified === false) {
+        const latest = db.emailVerifications
+          .filter(record => record.userId === user.id)
+          .reduce((max, record) => Math.max(max, record.expiresAt - VERIFY_TOKEN_TTL_MS), 0);
+        const waitMs = latest + RESEND_COOLDOWN_MS - Date.now();
+        if (waitMs > 0) {
+          const retryAfter = Math.ceil(waitMs / 1000);
+          throw new MockHttpError(429, `Please wait ${retryAfter}s before requesting another email`, { retryAfter });
+        }
+        sendVerificationEmail(user);
+      }
+      return json({ message: 'If the account needs verification, a new link has been sent' });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/refresh',
+    handler: ({ body }) => {
+      const { user, session } = verifyToken(text(body.refreshToken), 'refresh');
+      return json(issueTokens(user, session.id));
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/forgot-password',
+    handler: ({ body }) => {
+      const db = getDb();
+      const user = findUserByEmail(text(body.email));
+      if (user) {
+        const token = randomToken();
+        db.passwordResets.push({ token, userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS, used: false });
+        console.info(`[mock email] Password reset for ${user.email}: ${window.location.origin}/reset-password/${token}`);
+      }
+      return json({ message: 'If the account exists, a reset link has been sent' });
+    },
+  },
+  {
+    method: 'get',
+    path: '/auth/reset-password/:token',
+    handler: ({ params }) => {
+      const record = findResetToken(params.token);
+      const user = getDb().users.find(item => item.id === record.userId);
+      return json({ email: user?.email ?? '' });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/reset-password',
+    handler: ({ body }) => {
+      const record = findResetToken(text(body.token));
+      const user = getDb().users.find(item => item.id === record.userId);
+      if (!user) {
+        throw new MockHttpError(404, 'Reset link is not valid', { code: 'RESET_TOKEN_INVALID' });
+      }
+      const password = text(body.password);
+      assertPasswordPolicy(password, user.email, 'password');
+      user.password = password;
+      record.used = true;
+      return json({ message: 'Password reset successful' });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/change-password',
+    handler: (request) => {
+      const user = requireUser(request);
+      if (user.password !== request.body.currentPassword) {
+        throw new MockHttpError(400, 'Current password is incorrect', {
+          errors: { currentPassword: 'Current password is incorrect' },
+        });
+      }
+      const newPassword = text(request.body.newPassword);
+      assertPasswordPolicy(newPassword, user.email, 'newPassword');
+      user.password = newPassword;
+      return json({ message: 'Password changed successfully' });
+    },
+  },
+];
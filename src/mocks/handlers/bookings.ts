@@ -0,0 +1,132 @@
+import { BookingStatus } from '../../types';
+import { getDb, MockBookingRecord, nextId } from '../db';
+import { json, MockHttpError, MockRequest, MockRoute, text } from '../router';
+import { hasPermission, Permission } from '../../utils/permissions';
+import { requireUser } from '../session';
+import { MAX_GUESTS_PER_BOOKING } from '../../utils/hotelSearch';
+import { availableRoomsFor, countNights, roomsForGuests } from '../availability';
+import { findHotel } from './hotels';
+
+export const toBookingResponse = (booking: MockBookingRecord) => {
+  const db = getDb();
+  const hotel = db.hotels.find(record => record.id === booking.hotelId);
+  const guest = db.users.find(record => record.id === booking.userId);
+  const { userId, hotelId, ...rest } = booking;
+  return {
+    ...rest,
+    hotelName: hotel?.name ?? 'Deleted hotel',
+    hotelAddress: hotel?.address ?? '',
+    userEmail: guest?.email ?? '',
+  };
+};
+
+const transition = (
+  from: BookingStatus[],
+  to: BookingStatus,
+  message: string,
+  permission?: Permission
+) => (request: MockRequest) => {
+  const user = requireUser(request, permission);
+  const db = getDb();
+  const booking = db.bookings.find(record => record.id === Number(request.params.id));
+  if (!booking) {
+    throw new MockHttpError(404, 'Booking not found');
+  }
+
+  const hotel = db.hotels.find(record => record.id === booking.hotelId);
+  const isOwner = booking.userId === user.id;
+  const managesHotel = hasPermission(user, 'booking:view:all') || hotel?.operatorId === user.id;
+  if (to === 'cancelled' ? !isOwner : !managesHotel) {
+    throw new MockHttpError(403, 'You do not have permission to perform this action');
+  }
+  if (!from.includes(booking.status)) {
+    throw new MockHttpError(409, `Booking cannot be ${to} while ${booking.status}`);
+  }
+
+  booking.status = to;
+  return json({ message });
+};
+
+export const bookingRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/bookings',
+    handler: (request) => {
+      const user = requireUser(request);
+      return json(getDb().bookings.filter(record => record.userId === user.id).map(toBookingResponse));
+    },
+  },
+  {
+    method: 'get',
+    path: '/bookings/operator',
+    handler: (request) => {
+      const user = requireUser(request, 'dashboard:access');
+      const db = getDb();
+      if (hasPermission(user, 'booking:view:all')) {
+        return json(db.bookings.map(toBookingResponse));
+      }
+      const hotelIds = db.hotels.filter(hotel => hotel.operatorId === user.id).map(hotel => hotel.id);
+      return json(db.bookings.filter(record => hotelIds.includes(record.hotelId)).map(toBookingResponse));
+    },
+  },
+  {
+    method: 'post',
+    path: '/bookings',
+    handler: (request) => {
+      const user = requireUser(request, 'booking:create');
+      if (user.emailVerified === false) {
+        throw new MockHttpError(403, 'Verify your email address before booking', { code: 'EMAIL_NOT_VERIFIED' });
+      }
+      const { hotelId, guestCount, specialRequests } = request.body;
+      const checkInDate = text(request.body.checkInDate);
+      const checkOutDate = text(request.body.checkOutDate);
+      const hotel = findHotel(Number(hotelId));
+      const nights = countNights(checkInDate, checkOutDate);
+      if (!(nights > 0)) {
+        throw new MockHttpError(422, 'Booking dates are invalid', {
+          errors: { checkOutDate: 'Check-out date must be after check-in date' },
+        });
+      }
+      const guests = Number(guestCount);
+      if (!Number.isInteger(guests) || guests < 1 || guests > MAX_GUESTS_PER_BOOKING) {
+        throw new MockHttpError(422, 'Guest count is invalid', {
+          errors: { guestCount: `Bookings are for 1 to ${MAX_GUESTS_PER_BOOKING} guests` },
+        });
+      }
+      const rooms = roomsForGuests(guests);
+      if (availableRoomsFor(hotel, checkInDate, checkOutDate) < rooms) {
+        throw new MockHttpError(409, 'No rooms available for the selected dates', { code: 'NO_AVAILABILITY' });
+      }
+
+      const db = getDb();
+      db.bookings.push({
+        id: nextId(db.bookings),
+        userId: user.id,
+        hotelId: hotel.id,
+        checkInDate,
+        checkOutDate,
+        guestCount: guests,
+        totalPrice: nights * hotel.price * rooms,
+        status: 'pending',
+        specialRequests: text(specialRequests),
+        createdAt: new Date().toISOString(),
+      });
+      return json({ message: 'Booking successful, we will contact you soon' }, 201);
+    },
+  },
+  {
+    method: 'post',
+    path: '/bookings/:id/confirm',
+    handler: transition(['pending'], 'confirmed', 'Booking confirmed', 'booking:confirm'),
+  },
+  {
+    method: 'post',
+    path: '/bookings/:id/complete',
+    handler: transition(['confirmed'], 'completed', 'Booking completed', 'booking:complete'),
+  },
+  {
+    method: 'post',
+    path: '/bookings/:id/cancel',
+    handler: transition(['pending'], 'cancelled', 'Booking cancelled'),
+  },
+];
@@ -0,0 +1,42 @@
+import { getDb } from '../db';
+import { json, MockHttpError, MockRoute } from '../router';
+import { requireUser } from '../session';
+import { findHotel, toHotel } from './hotels';
+
+export const favoriteRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/favorites',
+    handler: (request) => {
+      const user = requireUser(request, 'favorite:manage');
+      const db = getDb();
+      const hotelIds = db.favorites.filter(record => record.userId === user.id).map(record => record.hotelId);
+      return json(db.hotels.filter(hotel => hotelIds.includes(hotel.id)).map(hotel => toHotel(hotel)));
+    },
+  },
+  {
+    method: 'post',
+    path: '/favorites',
+    handler: (request) => {
+      const user = requireUser(request, 'favorite:manage');
+      const hotel = findHotel(Number(request.body.hotelId));
+      const db = getDb();
+      if (db.favorites.some(record => record.userId === user.id && record.hotelId === hotel.id)) {
+        throw new MockHttpError(409, 'Hotel is already in favorites');
+      }
+      db.favorites.push({ userId: user.id, hotelId: hotel.id });
+      return json({ message: 'Added to favorites' }, 201);
+    },
+  },
+  {
+    method: 'delete',
+    path: '/favorites/:hotelId',
+    handler: (request) => {
+      const user = requireUser(request, 'favorite:manage');
+      const db = getDb();
+      const hotelId = Number(request.params.hotelId);
+      db.favorites = db.favorites.filter(record => !(record.userId === user.id && record.hotelId === hotelId));
+      return json({ message: 'Removed from favorites' });
+    },
+  },
+];
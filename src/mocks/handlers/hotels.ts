@@ -0,0 +1,188 @@
+import { getDb, MockHotelRecord, nextId } from '../db';
+import { json, MockBody, MockHttpError, MockRequest, MockRoute, text } from '../router';
+import { Hotel } from '../../types';
+import { canManageHotel, Permission } from '../../utils/permissions';
+import { MAX_GUESTS_PER_BOOKING } from '../../utils/hotelSearch';
+import { requireUser } from '../session';
+import { countNights, quoteStay, roomsFreeTonight } from '../availability';
+
+export const findHotel = (id: string | number) => {
+  const hotel = getDb().hotels.find(record => record.id === Number(id));
+  if (!hotel) {
+    throw new MockHttpError(404, 'Hotel not found');
+  }
+  return hotel;
+};
+
+const requireManagedHotel = (request: MockRequest, permission: Permission) => {
+  const user = requireUser(request, permission);
+  const hotel = findHotel(request.params.id);
+  if (!canManageHotel(user, hotel)) {
+    throw new MockHttpError(403, 'You can only manage your own hotels');
+  }
+  return hotel;
+};
+
+const readHotelInput = (body: MockBody): Omit<MockHotelRecord, 'id' | 'operatorId'> => {
+  const price = Number(body.price);
+  const totalRooms = Number(body.availableRooms ?? body.totalRooms);
+  const errors: Record<string, string> = {};
+  if (!text(body.name)) errors.name = 'Hotel name is required';
+  if (!text(body.address)) errors.address = 'Address is required';
+  if (!(price > 0)) errors.price = 'Price must be positive';
+  if (!Number.isInteger(totalRooms) || totalRooms < 0) {
+    errors.availableRooms = 'Room count must be a non-negative integer';
+  }
+  const hasLocation = body.latitude != null && body.longitude != null;
+  const latitude = hasLocation ? Number(body.latitude) : null;
+  const longitude = hasLocation ? Number(body.longitude) : null;
+  if (hasLocation && !(Math.abs(latitude!) <= 90 && Math.abs(longitude!) <= 180)) {
+    errors.latitude = 'Location is outside the valid range';
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Hotel details are invalid', { errors });
+  }
+  return {
+    name: text(body.name),
+    address: text(body.address),
+    description: text(body.description),
+    price,
+    totalRooms,
+    latitude,
+    longitude,
+  };
+};
+
+const SUGGESTION_LIMIT = 5;
+
+type StayRequest = { checkIn: string; checkOut: string; guests: number };
+
+export const toHotel = (hotel: MockHotelRecord, stay?: StayRequest | null): Hotel => ({
+  ...hotel,
+  availableRooms: roomsFreeTonight(hotel),
+  ...(stay ? { stay: quoteStay(hotel, stay.checkIn, stay.checkOut, stay.guests) } : {}),
+});
+
+const roomsLeft = (hotel: Hotel) => hotel.stay?.availableRooms ?? hotel.availableRooms;
+
+const hotelSorters: Record<string, (a: Hotel, b: Hotel) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  availability: (a, b) => roomsLeft(b) - roomsLeft(a),
+};
+
+const readStayRequest = (query: Record<string, string>): StayRequest | null => {
+  const { checkIn, checkOut } = query;
+  if (!checkIn && !checkOut) {
+    return null;
+  }
+  if (!checkIn || !checkOut || !(countNights(checkIn, checkOut) > 0)) {
+    throw new MockHttpError(422, 'Stay dates are invalid', {
+      errors: { checkOut: 'Check-out date must be after check-in date' },
+    });
+  }
+  const guests = query.guests ? Number(query.guests) : 1;
+  if (!Number.isInteger(guests) || guests < 1 || guests > MAX_GUESTS_PER_BOOKING) {
+    throw new MockHttpError(422, 'Guest count is invalid', {
+      errors: { guests: `Bookings are for 1 to ${MAX_GUESTS_PER_BOOKING} guests` },
+    });
+  }
+  return { checkIn, checkOut, guests };
+};
+
+export const hotelRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/hotels',
+    handler: ({ query }) => {
+      const name = (query.name || '').trim().toLowerCase();
+      const location = (query.location || '').trim().toLowerCase();
+      const minPrice = Number(query.minPrice) || 0;
+      const maxPrice = Number(query.maxPrice) || Infinity;
+      const minRooms = Number(query.minRooms) || 0;
+      const stay = readStayRequest(query);
+      const hotels = getDb().hotels.map(hotel => toHotel(hotel, stay)).filter(hotel =>
+        hotel.name.toLowerCase().includes(name)
+        && hotel.address.toLowerCase().includes(location)
+        && hotel.price >= minPrice
+        && hotel.price <= maxPrice
+        && roomsLeft(hotel) >= minRooms
+      );
+      const sorter = hotelSorters[query.sort];
+      const sorted = sorter ? [...hotels].sort(sorter) : hotels;
+      if (!query.page) {
+        return json(sorted);
+      }
+      const page = Math.max(1, Math.floor(Number(query.page)) || 1);
+      const pageSize = Math.min(50, Math.max(1, Math.floor(Number(query.pageSize)) || 12));
+      return json({
+        items: sorted.slice((page - 1) * pageSize, page * pageSize),
+        total: sorted.length,
+        page,
+        pageSize,
+      });
+    },
+  },
+  {
+    method: 'get',
+    path: '/hotels/suggestions',
+    handler: ({ query }) => {
+      const text = (query.q || '').trim().toLowerCase();
+      if (!text) {
+        return json({ hotels: [], locations: [] });
+      }
+      const hotels = getDb().hotels;
+      const locations = new Map<string, number>();
+      hotels.forEach(hotel => {
+        const city = hotel.address.split(',').pop()?.trim() || hotel.address;
+        if (hotel.address.toLowerCase().includes(text)) {
+          locations.set(city, (locations.get(city) ?? 0) + 1);
+        }
+      });
+      return json({
+        hotels: hotels
+          .filter(hotel => hotel.name.toLowerCase().includes(text))
+          .slice(0, SUGGESTION_LIMIT)
+          .map(({ id, name, address }) => ({ id, name, address })),
+        locations: Array.from(locations, ([name, hotelCount]) => ({ name, hotelCount })).slice(0, SUGGESTION_LIMIT),
+      });
+    },
+  },
+  {
+    method: 'get',
+    path: '/hotels/:id',
+    handler: ({ params, query }) => json(toHotel(findHotel(params.id), readStayRequest(query))),
+  },
+  {
+    method: 'post',
+    path: '/hotels',
+    handler: (request) => {
+      const operator = requireUser(request, 'hotel:create');
+      const db = getDb();
+      const hotel = { id: nextId(db.hotels), operatorId: operator.id, ...readHotelInput(request.body) };
+      db.hotels.push(hotel);
+      return json({ message: 'Hotel added successfully', id: hotel.id }, 201);
+    },
+  },
+  {
+    method: 'put',
+    path: '/hotels/:id',
+    handler: (request) => {
+      const hotel = requireManagedHotel(request, 'hotel:edit');
+      Object.assign(hotel, readHotelInput(request.body));
+      return json({ message: 'Hotel updated successfully' });
+    },
+  },
+  {
+    method: 'delete',
+    path: '/hotels/:id',
+    handler: (request) => {
+      const hotel = requireManagedHotel(request, 'hotel:delete');
+      const db = getDb();
+      db.hotels = db.hotels.filter(record => record.id !== hotel.id);
+      db.favorites = db.favorites.filter(record => record.hotelId !== hotel.id);
+      return json({ message: 'Hotel deleted successfully' });
+    },
+  },
+];
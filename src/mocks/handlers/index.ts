@@ -0,0 +1,24 @@
+import { MockRoute } from '../router';
+import { accountRoutes } from './account';
+import { adminRoutes } from './admin';
+import { authRoutes } from './auth';
+import { bookingRoutes } from './bookings';
+import { favoriteRoutes } from './favorites';
+import { hotelRoutes } from './hotels';
+import { invitationRoutes } from './invitations';
+import { profileRoutes } from './profile';
+import { sessionRoutes } from './sessions';
+import { twoFactorRoutes } from './twoFactor';
+
+export const routes: MockRoute[] = [
+  ...authRoutes,
+  ...twoFactorRoutes,
+  ...profileRoutes,
+  ...sessionRoutes,
+  ...accountRoutes,
+  ...invitationRoutes,
+  ...adminRoutes,
+  ...hotelRoutes,
+  ...favoriteRoutes,
+  ...bookingRoutes,
+];
@@ -0,0 +1,124 @@
+import { getDb, MockInvitationRecord, nextId } from '../db';
+import { json, MockHttpError, MockRoute, text } from '../router';
+import { randomToken, requireUser } from '../session';
+import { hasPermission } from '../../utils/permissions';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const invitationStatus = (invitation: MockInvitationRecord) => {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (Date.parse(invitation.expiresAt) <= Date.now()) return 'expired';
+  return 'pending';
+};
+
+const toInvitationResponse = (invitation: MockInvitationRecord) => {
+  const inviter = getDb().users.find(user => user.id === invitation.invitedBy);
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitationStatus(invitation),
+    invitedBy: inviter?.email ?? null,
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+  };
+};
+
+export const findInvitation = (token: string) => {
+  const invitation = getDb().invitations.find(record => record.token === token);
+  if (!invitation) {
+    throw new MockHttpError(404, 'This invitation link is not valid', { code: 'INVITE_INVALID' });
+  }
+  const status = invitationStatus(invitation);
+  if (status === 'accepted') {
+    throw new MockHttpError(410, 'This invitation has already been used', { code: 'INVITE_USED' });
+  }
+  if (status === 'revoked') {
+    throw new MockHttpError(410, 'This invitation has been withdrawn', { code: 'INVITE_REVOKED' });
+  }
+  if (status === 'expired') {
+    throw new MockHttpError(410, 'This invitation has expired', { code: 'INVITE_EXPIRED' });
+  }
+  return invitation;
+};
+
+export const invitationRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/invitations',
+    handler: (request) => {
+      const user = requireUser(request, 'operator:invite');
+      const invitations = getDb().invitations
+        .filter(record => hasPermission(user, 'user:manage') || record.invitedBy === user.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return json(invitations.map(toInvitationResponse));
+    },
+  },
+  {
+    method: 'post',
+    path: '/invitations',
+    handler: (request) => {
+      const user = requireUser(request, 'operator:invite');
+      const db = getDb();
+      const email = text(request.body.email).trim();
+      if (!EMAIL_PATTERN.test(email)) {
+        throw new MockHttpError(422, 'Email is invalid', { errors: { email: 'Please enter a valid email' } });
+      }
+      if (db.users.some(record => record.email.toLowerCase() === email.toLowerCase())) {
+        throw new MockHttpError(409, 'This email already has an account', {
+          code: 'EMAIL_TAKEN',
+          errors: { email: 'This email already has an account' },
+        });
+      }
+
+      const now = new Date();
+      db.invitations
+        .filter(record => record.email.toLowerCase() === email.toLowerCase() && invitationStatus(record) === 'pending')
+        .forEach(record => {
+          record.revokedAt = now.toISOString();
+        });
+      const invitation: MockInvitationRecord = {
+        id: nextId(db.invitations),
+        token: randomToken(),
+        email,
+        role: 'operator',
+        invitedBy: user.id,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+        acceptedAt: null,
+        revokedAt: null,
+      };
+      db.invitations.push(invitation);
+
+      const link = `${window.location.origin}/register?invite=${invitation.token}`;
+      console.info(`[mock email] Operator invitation for ${email}: ${link}`);
+      return json({ ...toInvitationResponse(invitation), link }, 201);
+    },
+  },
+  {
+    method: 'get',
+    path: '/invitations/:token',
+    handler: ({ params }) => {
+      const invitation = findInvitation(params.token);
+      return json({ email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt });
+    },
+  },
+  {
+    method: 'delete',
+    path: '/invitations/:id',
+    handler: (request) => {
+      const user = requireUser(request, 'operator:invite');
+      const invitation = getDb().invitations.find(record => record.id === Number(request.params.id));
+      if (!invitation || (!hasPermission(user, 'user:manage') && invitation.invitedBy !== user.id)) {
+        throw new MockHttpError(404, 'Invitation not found');
+      }
+      if (invitationStatus(invitation) !== 'pending') {
+        throw new MockHttpError(409, 'Only pending invitations can be withdrawn');
+      }
+      invitation.revokedAt = new Date().toISOString();
+      return json({ message: 'Invitation withdrawn' });
+    },
+  },
+];
@@ -0,0 +1,79 @@
+import { resetDb } from '../db';
+import { MockHttpError } from '../router';
+import { assertLoginAllowed, clearLoginFailures, recordLoginFailure } from './loginThrottle';
+
+const EMAIL = 'user@example.com';
+
+const solve = (error: MockHttpError) => {
+  const captcha = error.data.captcha as { id: string; prompt: string };
+  const [a, b] = (captcha.prompt.match(/\d+/g) ?? []).map(Number);
+  return `${captcha.id}:${a + b}`;
+};
+
+const attempt = (captchaToken?: string) => {
+  try {
+    assertLoginAllowed(EMAIL, captchaToken);
+  } catch (error) {
+    return error as MockHttpError;
+  }
+  return null;
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  resetDb();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('counts down the remaining attempts before asking for a captcha', () => {
+  expect(recordLoginFailure(EMAIL).data).toMatchObject({ code: 'INVALID_CREDENTIALS', remainingAttempts: 4 });
+  expect(recordLoginFailure(EMAIL).data.captcha).toBeUndefined();
+  expect(attempt()).toBeNull();
+
+  const third = recordLoginFailure(EMAIL);
+  expect(third.data).toMatchObject({ remainingAttempts: 2, captcha: { provider: 'local' } });
+});
+
+test('requires the latest captcha to be solved once it has been issued', () => {
+  recordLoginFailure(EMAIL);
+  recordLoginFailure(EMAIL);
+  const issued = recordLoginFailure(EMAIL);
+
+  const missing = attempt();
+  expect(missing).toMatchObject({ status: 400, data: { code: 'CAPTCHA_REQUIRED', message: 'Please complete the verification' } });
+  expect(attempt(solve(issued))).toMatchObject({ data: { message: 'Verification failed, please try again' } });
+
+  const current = attempt('wrong:0') as MockHttpError;
+  expect(attempt(solve(current))).toBeNull();
+});
+
+test('locks the account after five failures and unlocks when the lockout ends', () => {
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now);
+  for (let count = 0; count < 4; count += 1) {
+    recordLoginFailure(EMAIL);
+  }
+
+  expect(recordLoginFailure(EMAIL)).toMatchObject({ status: 429, data: { code: 'ACCOUNT_LOCKED', retryAfter: 120 } });
+  expect(attempt()).toMatchObject({ status: 429, data: { retryAfter: 120 } });
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 119001);
+  expect(attempt()).toMatchObject({ data: { retryAfter: 1 } });
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+  expect(attempt()).toBeNull();
+});
+
+test('forgets failures after a successful login, whatever the email casing', () => {
+  recordLoginFailure(EMAIL);
+  recordLoginFailure(EMAIL);
+  recordLoginFailure(EMAIL);
+
+  clearLoginFailures(' User@Example.com ');
+
+  expect(attempt()).toBeNull();
+  expect(recordLoginFailure(EMAIL).data.remainingAttempts).toBe(4);
+});
@@ -0,0 +1,73 @@
+import { getDb, MockLoginAttemptRecord } from '../db';
+import { MockHttpError } from '../router';
+import { randomToken } from '../session';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const CAPTCHA_AFTER_FAILURES = 3;
+const LOCKOUT_MS = 2 * 60 * 1000;
+
+const findAttempts = (email: string) => {
+  const db = getDb();
+  const key = email.trim().toLowerCase();
+  let record = db.loginAttempts.find(item => item.email === key);
+  if (!record) {
+    record = { email: key, failures: 0, lockedUntil: 0, captcha: null };
+    db.loginAttempts.push(record);
+  }
+  return record;
+};
+
+const issueCaptcha = (record: MockLoginAttemptRecord) => {
+  const a = Math.floor(Math.random() * 9) + 1;
+  const b = Math.floor(Math.random() * 9) + 1;
+  record.captcha = { id: randomToken(), answer: String(a + b) };
+  return { provider: 'local', id: record.captcha.id, prompt: `What is ${a} + ${b}?` };
+};
+
+export const assertLoginAllowed = (email: string, captchaToken?: string) => {
+  const record = findAttempts(email);
+  const lockedFor = Math.ceil((record.lockedUntil - Date.now()) / 1000);
+  if (lockedFor > 0) {
+    throw new MockHttpError(429, 'Too many failed attempts, please try again later', {
+      code: 'ACCOUNT_LOCKED',
+      retryAfter: lockedFor,
+    });
+  }
+  if (record.failures < CAPTCHA_AFTER_FAILURES) return;
+
+  const [id, answer] = (captchaToken || '').split(':');
+  const solved = record.captcha && record.captcha.id === id && record.captcha.answer === answer;
+  if (!solved) {
+    throw new MockHttpError(400, captchaToken ? 'Verification failed, please try again' : 'Please complete the verification', {
+      code: 'CAPTCHA_REQUIRED',
+      captcha: issueCaptcha(record),
+      remainingAttempts: MAX_FAILED_ATTEMPTS - record.failures,
+    });
+  }
+  record.captcha = null;
+};
+
+export const recordLoginFailure = (email: string) => {
+  const record = findAttempts(email);
+  record.failures += 1;
+  if (record.failures >= MAX_FAILED_ATTEMPTS) {
+    record.failures = 0;
+    record.captcha = null;
+    record.lockedUntil = Date.now() + LOCKOUT_MS;
+    return new MockHttpError(429, 'Too many failed attempts, please try again later', {
+      code: 'ACCOUNT_LOCKED',
+      retryAfter: LOCKOUT_MS / 1000,
+    });
+  }
+  return new MockHttpError(401, 'Incorrect email or password', {
+    code: 'INVALID_CREDENTIALS',
+    remainingAttempts: MAX_FAILED_ATTEMPTS - record.failures,
+    captcha: record.failures >= CAPTCHA_AFTER_FAILURES ? issueCaptcha(record) : undefined,
+  });
+};
+
+export const clearLoginFailures = (email: string) => {
+  const db = getDb();
+  const key = email.trim().toLowerCase();
+  db.loginAttempts = db.loginAttempts.filter(item => item.email !== key);
+};
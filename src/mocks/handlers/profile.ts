@@ -0,0 +1,55 @@
+import { json, MockHttpError, MockRoute } from '../router';
+import { requireUser, toPublicUser } from '../session';
+import { findUserByEmail, sendVerificationEmail } from './auth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const optionalText = (value: unknown) => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text || null;
+};
+
+export const profileRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/profile',
+    handler: (request) => json(toPublicUser(requireUser(request))),
+  },
+  {
+    method: 'patch',
+    path: '/profile',
+    handler: (request) => {
+      const user = requireUser(request);
+      const { body } = request;
+      const email = typeof body.email === 'string' ? body.email.trim() : user.email;
+      if (!EMAIL_PATTERN.test(email)) {
+        throw new MockHttpError(422, 'Email is invalid', { errors: { email: 'Please enter a valid email' } });
+      }
+
+      const emailChanged = email !== user.email;
+      if (emailChanged) {
+        const existing = findUserByEmail(email);
+        if (existing && existing.id !== user.id) {
+          throw new MockHttpError(409, 'Email is already registered', {
+            code: 'EMAIL_TAKEN',
+            errors: { email: 'This email is already registered' },
+          });
+        }
+        if (user.password !== body.currentPassword) {
+          throw new MockHttpError(400, 'Current password is incorrect', {
+            errors: { currentPassword: 'Current password is incorrect' },
+          });
+        }
+      }
+
+      if ('displayName' in body) user.displayName = optionalText(body.displayName);
+      if ('phone' in body) user.phone = optionalText(body.phone);
+      if (emailChanged) {
+        user.email = email;
+        user.emailVerified = false;
+        sendVerificationEmail(user);
+      }
+      return json(toPublicUser(user));
+    },
+  },
+];
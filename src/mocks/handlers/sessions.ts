@@ -0,0 +1,62 @@
+import { getDb, MockSessionRecord } from '../db';
+import { json, MockHttpError, MockRoute } from '../router';
+import { requireSession } from '../session';
+
+const toPublicSession = (session: MockSessionRecord, currentId: string) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentId,
+});
+
+const activeSessions = (userId: number) =>
+  getDb().sessions.filter(session => session.userId === userId && !session.revoked);
+
+export const sessionRoutes: MockRoute[] = [
+  {
+    method: 'get',
+    path: '/sessions',
+    handler: (request) => {
+      const { user, session } = requireSession(request);
+      const sessions = activeSessions(user.id)
+        .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+        .map(item => toPublicSession(item, session.id));
+      return json(sessions);
+    },
+  },
+  {
+    method: 'delete',
+    path: '/sessions',
+    handler: (request) => {
+      const { user, session } = requireSession(request);
+      const others = activeSessions(user.id).filter(item => item.id !== session.id);
+      others.forEach(item => {
+        item.revoked = true;
+      });
+      return json({ message: `Signed out of ${others.length} other session(s)` });
+    },
+  },
+  {
+    method: 'delete',
+    path: '/sessions/current',
+    handler: (request) => {
+      const { session } = requireSession(request);
+      session.revoked = true;
+      return json({ message: 'Signed out' });
+    },
+  },
+  {
+    method: 'delete',
+    path: '/sessions/:id',
+    handler: (request) => {
+      const { user } = requireSession(request);
+      const target = activeSessions(user.id).find(item => item.id === request.params.id);
+      if (!target) {
+        throw new MockHttpError(404, 'Session not found');
+      }
+      target.revoked = true;
+      return json({ message: 'Session signed out' });
+    },
+  },
+];
@@ -0,0 +1,157 @@
+import { Role } from '../../types';
+import { getDb, MockTokenRecord, MockUserRecord } from '../db';
+import { json, MockHttpError, MockRoute, text } from '../router';
+import { issueTokens, randomToken, requireUser, toPublicUser } from '../session';
+import { buildOtpauthUrl, generateSecret, generateTotp, verifyTotp } from '../totp';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const BACKUP_CODE_COUNT = 8;
+
+export const TWO_FACTOR_ENFORCED_ROLES: Role[] = ['operator'];
+
+const isEnforced = (user: MockUserRecord) => TWO_FACTOR_ENFORCED_ROLES.includes(user.role);
+
+const generateBackupCodes = () =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomToken().slice(0, 8);
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+
+const logCurrentCode = async (user: MockUserRecord, secret: string) => {
+  console.info(`[mock 2fa] Current code for ${user.email}: ${await generateTotp(secret)}`);
+};
+
+const invalidCode = () =>
+  new MockHttpError(400, 'The code is not valid', {
+    code: 'INVALID_TWO_FACTOR_CODE',
+    errors: { code: 'The code is not valid' },
+  });
+
+const startSetup = async (user: MockUserRecord) => {
+  const secret = generateSecret();
+  user.twoFactorPendingSecret = secret;
+  await logCurrentCode(user, secret);
+  return json({ secret, otpauthUrl: buildOtpauthUrl(user.email, secret) });
+};
+
+const completeSetup = async (user: MockUserRecord, code: string) => {
+  if (!user.twoFactorPendingSecret) {
+    throw new MockHttpError(409, 'Two-factor setup has not been started');
+  }
+  if (!(await verifyTotp(user.twoFactorPendingSecret, code))) {
+    throw invalidCode();
+  }
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = null;
+  user.backupCodes = generateBackupCodes();
+  return user.backupCodes;
+};
+
+const verifySecondFactor = async (user: MockUserRecord, code: string) => {
+  const normalized = code.trim().toLowerCase();
+  const backupIndex = (user.backupCodes || []).indexOf(normalized);
+  if (backupIndex >= 0) {
+    user.backupCodes!.splice(backupIndex, 1);
+    return;
+  }
+  if (!user.twoFactorSecret || !(await verifyTotp(user.twoFactorSecret, normalized))) {
+    throw invalidCode();
+  }
+};
+
+const findChallenge = (token: string) => {
+  const db = getDb();
+  const record = db.twoFactorChallenges.find(item => item.token === token);
+  const user = record && db.users.find(item => item.id === record.userId);
+  if (!record || !user || record.used || record.expiresAt <= Date.now()) {
+    throw new MockHttpError(410, 'Your sign-in attempt has expired, please sign in again', {
+      code: 'TWO_FACTOR_CHALLENGE_EXPIRED',
+    });
+  }
+  return { record, user };
+};
+
+export const startTwoFactorChallenge = async (user: MockUserRecord) => {
+  if (!user.twoFactorSecret && !isEnforced(user)) return null;
+  const record: MockTokenRecord = {
+    token: randomToken(),
+    userId: user.id,
+    expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    used: false,
+  };
+  getDb().twoFactorChallenges.push(record);
+  if (user.twoFactorSecret) {
+    await logCurrentCode(user, user.twoFactorSecret);
+  }
+  return {
+    twoFactorRequired: true,
+    challengeToken: record.token,
+    enrollmentRequired: !user.twoFactorSecret,
+  };
+};
+
+export const twoFactorRoutes: MockRoute[] = [
+  {
+    method: 'post',
+    path: '/auth/2fa/challenge/setup',
+    handler: async ({ body }) => {
+      const { user } = findChallenge(text(body.challengeToken));
+      if (user.twoFactorSecret) {
+        throw new MockHttpError(409, 'Two-factor authentication is already enabled');
+      }
+      return startSetup(user);
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/2fa/challenge',
+    handler: async ({ body }) => {
+      const { record, user } = findChallenge(text(body.challengeToken));
+      const code = text(body.code);
+      let backupCodes: string[] | undefined;
+      if (user.twoFactorSecret) {
+        await verifySecondFactor(user, code);
+      } else {
+        backupCodes = await completeSetup(user, code);
+      }
+      record.used = true;
+      return json({ ...issueTokens(user), user: toPublicUser(user), backupCodes });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/2fa/setup',
+    handler: async (request) => {
+      const user = requireUser(request);
+      if (user.twoFactorSecret) {
+        throw new MockHttpError(409, 'Two-factor authentication is already enabled');
+      }
+      return startSetup(user);
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/2fa/enable',
+    handler: async (request) => {
+      const user = requireUser(request);
+      const backupCodes = await completeSetup(user, text(request.body.code));
+      return json({ backupCodes });
+    },
+  },
+  {
+    method: 'post',
+    path: '/auth/2fa/disable',
+    handler: async (request) => {
+      const user = requireUser(request);
+      if (isEnforced(user)) {
+        throw new MockHttpError(403, 'Two-factor authentication is required for your role', {
+          code: 'TWO_FACTOR_ENFORCED',
+        });
+      }
+      await verifySecondFactor(user, text(request.body.code));
+      user.twoFactorSecret = null;
+      user.backupCodes = [];
+      return json({ message: 'Two-factor authentication disabled' });
+    },
+  },
+];
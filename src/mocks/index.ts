@@ -0,0 +1,9 @@
+import api from '../utils/api';
+import { mockAdapter } from './adapter';
+
+export { resetDb as resetMockDb } from './db';
+
+export const enableMockApi = () => {
+  api.defaults.adapter = mockAdapter;
+  console.info('Mock API enabled: requests are served in the browser');
+};
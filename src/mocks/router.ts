@@ -0,0 +1,62 @@
+export type MockMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type MockBody = Record<string, unknown>;
+
+export interface MockRequest {
+  method: MockMethod;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: MockBody;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockRoute {
+  method: MockMethod;
+  path: string;
+  handler: MockHandler;
+}
+
+export class MockHttpError extends Error {
+  status: number;
+  data: Record<string, unknown>;
+
+  constructor(status: number, message: string, extra: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.data = { message, ...extra };
+  }
+}
+
+export const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+export const json = (data: unknown, status = 200): MockResponse => ({ status, data });
+
+export const matchRoute = (routes: MockRoute[], method: MockMethod, path: string) => {
+  const segments = path.split('/').filter(Boolean);
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const routeSegments = route.path.split('/').filter(Boolean);
+    if (routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matched = routeSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (matched) return { route, params };
+  }
+  return null;
+};
@@ -0,0 +1,89 @@
+import { User } from '../types';
+import { hasPermission, Permission } from '../utils/permissions';
+import { decodeToken } from '../utils/token';
+import { getDb, MockSessionRecord, MockUserRecord } from './db';
+import { MockHttpError, MockRequest } from './router';
+
+const ACCESS_TOKEN_TTL = 15 * 60;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+type TokenType = 'access' | 'refresh';
+
+const encodeBase64Url = (value: string) =>
+  btoa(unescape(encodeURIComponent(value))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const signToken = (user: MockUserRecord, sessionId: string, type: TokenType, ttl: number) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = encodeBase64Url(
+    JSON.stringify({ sub: user.id, sid: sessionId, role: user.role, type, iat: now, exp: now + ttl })
+  );
+  return `${header}.${payload}.mock`;
+};
+
+export const randomToken = () =>
+  Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join('');
+
+const createSession = (user: MockUserRecord): MockSessionRecord => {
+  const now = new Date().toISOString();
+  const session = {
+    id: randomToken(),
+    userId: user.id,
+    userAgent: navigator.userAgent,
+    createdAt: now,
+    lastSeenAt: now,
+    revoked: false,
+  };
+  getDb().sessions.push(session);
+  return session;
+};
+
+export const toPublicUser = ({
+  password,
+  twoFactorSecret,
+  twoFactorPendingSecret,
+  backupCodes,
+  ...user
+}: MockUserRecord): User => ({ ...user, twoFactorEnabled: Boolean(twoFactorSecret) });
+
+export const issueTokens = (user: MockUserRecord, sessionId = createSession(user).id) => ({
+  token: signToken(user, sessionId, 'access', ACCESS_TOKEN_TTL),
+  refreshToken: signToken(user, sessionId, 'refresh', REFRESH_TOKEN_TTL),
+});
+
+export const verifyToken = (token: string, type: TokenType) => {
+  const payload = decodeToken(token);
+  if (!payload || payload.type !== type || typeof payload.exp !== 'number') {
+    throw new MockHttpError(401, 'Invalid token');
+  }
+  if (payload.exp * 1000 <= Date.now()) {
+    throw new MockHttpError(401, 'Token expired');
+  }
+  const db = getDb();
+  const user = db.users.find(record => record.id === payload.sub);
+  const session = db.sessions.find(record => record.id === payload.sid && record.userId === payload.sub);
+  if (!user || !session) {
+    throw new MockHttpError(401, 'Invalid token');
+  }
+  if (session.revoked) {
+    throw new MockHttpError(401, 'This session has been signed out', { code: 'SESSION_REVOKED' });
+  }
+  session.lastSeenAt = new Date().toISOString();
+  return { user, session };
+};
+
+export const requireSession = (request: MockRequest) => {
+  const authorization = request.headers['authorization'] || '';
+  if (!authorization.startsWith('Bearer ')) {
+    throw new MockHttpError(401, 'Authentication required');
+  }
+  return verifyToken(authorization.slice('Bearer '.length), 'access');
+};
+
+export const requireUser = (request: MockRequest, permission?: Permission | Permission[]) => {
+  const { user } = requireSession(request);
+  if (permission && !hasPermission(user, permission)) {
+    throw new MockHttpError(403, 'You do not have permission to perform this action');
+  }
+  return user;
+};
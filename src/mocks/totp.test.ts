@@ -0,0 +1,59 @@
+import { randomBytes, webcrypto } from 'crypto';
+import { buildOtpauthUrl, generateSecret, generateTotp, verifyTotp } from './totp';
+
+// jsdom has no Web Crypto, and Node's rejects typed arrays created in the jsdom realm.
+const toNodeBytes = (data: ArrayBuffer | ArrayBufferView) =>
+  ArrayBuffer.isView(data) ? Buffer.from(data.buffer, data.byteOffset, data.byteLength) : Buffer.from(data);
+
+beforeAll(() => {
+  const getRandomValues = (array: Uint8Array) => {
+    array.set(randomBytes(array.length));
+    return array;
+  };
+  const subtle = {
+    importKey: (format: 'raw', keyData: ArrayBufferView, algorithm: HmacImportParams, extractable: boolean, usages: KeyUsage[]) =>
+      webcrypto.subtle.importKey(format, toNodeBytes(keyData), algorithm, extractable, usages),
+    sign: (algorithm: string, key: CryptoKey, data: ArrayBuffer) => webcrypto.subtle.sign(algorithm, key, toNodeBytes(data)),
+  };
+  Object.defineProperty(window, 'crypto', { value: { getRandomValues, subtle }, configurable: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// RFC 6238 appendix B, SHA-1 with the ASCII secret "12345678901234567890", truncated to six digits.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test.each([
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+])('matches the RFC 6238 code at %i seconds', async (seconds, code) => {
+  await expect(generateTotp(RFC_SECRET, seconds * 1000)).resolves.toBe(code);
+});
+
+test('accepts codes from the neighbouring time steps only', async () => {
+  const now = 1700000000000;
+  jest.spyOn(Date, 'now').mockReturnValue(now);
+
+  await expect(verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, now - 30000))).resolves.toBe(true);
+  await expect(verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, now + 30000))).resolves.toBe(true);
+  await expect(verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, now - 90000))).resolves.toBe(false);
+});
+
+test('ignores spaces in a typed code', async () => {
+  jest.spyOn(Date, 'now').mockReturnValue(59000);
+
+  await expect(verifyTotp(RFC_SECRET, '287 082')).resolves.toBe(true);
+});
+
+test('creates base32 secrets for authenticator apps', () => {
+  const secret = generateSecret();
+
+  expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+  expect(buildOtpauthUrl('user@example.com', secret)).toBe(
+    `otpauth://totp/Wanderlust%20Travel%3Auser%40example.com?secret=${secret}&issuer=Wanderlust%20Travel`
+  );
+});
@@ -0,0 +1,64 @@
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const PERIOD_MS = 30 * 1000;
+const DIGITS = 6;
+const ISSUER = 'Wanderlust Travel';
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  input.replace(/=+$/, '').toUpperCase().split('').forEach(char => {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) return;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  });
+  return new Uint8Array(bytes);
+};
+
+export const generateSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const buildOtpauthUrl = (email: string, secret: string) =>
+  `otpauth://totp/${encodeURIComponent(`${ISSUER}:${email}`)}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}`;
+
+export const generateTotp = async (secret: string, timestamp = Date.now()) => {
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(4, Math.floor(timestamp / PERIOD_MS));
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const verifyTotp = async (secret: string, code: string) => {
+  const normalized = code.replace(/\s/g, '');
+  for (const drift of [-1, 0, 1]) {
+    if (await generateTotp(secret, Date.now() + drift * PERIOD_MS) === normalized) {
+      return true;
+    }
+  }
+  return false;
+};
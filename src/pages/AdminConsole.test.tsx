@@ -0,0 +1,38 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthProvider } from '../contexts/AuthContext';
+import { adminService } from '../services';
+import { AdminUser } from '../types';
+import { ApiError } from '../utils/apiError';
+import { clearQueryCache } from '../utils/queryCache';
+import AdminConsole from './AdminConsole';
+
+const member: AdminUser = { id: 2, email: 'user@example.com', role: 'user', emailVerified: true, hotelCount: 0 };
+
+beforeEach(() => {
+  localStorage.clear();
+  clearQueryCache();
+});
+
+test('shows a failed user list as an error with a retry instead of an empty list', async () => {
+  const listUsers = jest.spyOn(adminService, 'listUsers')
+    .mockRejectedValueOnce(new ApiError({ status: 403, code: 'FORBIDDEN', message: 'You do not have permission to perform this action' }))
+    .mockResolvedValueOnce([member]);
+
+  render(
+    <MemoryRouter>
+      <AuthProvider>
+        <AdminConsole />
+      </AuthProvider>
+    </MemoryRouter>
+  );
+
+  expect(await screen.findByText('You do not have permission to perform this action')).toBeInTheDocument();
+  expect(screen.queryByText('No users found')).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+  expect(await screen.findByText('user@example.com')).toBeInTheDocument();
+  expect(listUsers).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Card,
+  Chip,
+  Alert,
+  Snackbar,
+  Tabs,
+  Tab,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { adminService, hotelsService, queryKeys } from '../services';
+import { AdminUser, Hotel, Role } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import { ROLE_LABELS } from '../utils/permissions';
+
+interface TabPanelProps {
+  children?: React.ReactNode;
+  index: number;
+  value: number;
+}
+
+function TabPanel(props: TabPanelProps) {
+  const { children, value, index, ...other } = props;
+
+  return (
+    <div
+      role="tabpanel"
+      hidden={value !== index}
+      id={`simple-tabpanel-${index}`}
+      aria-labelledby={`simple-tab-${index}`}
+      {...other}
+    >
+      {value === index && (
+        <Box sx={{ p: 3 }}>
+          {children}
+        </Box>
+      )}
+    </div>
+  );
+}
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as Role[];
+
+const AdminConsole: React.FC = () => {
+  const { user } = useAuth();
+  const [tabValue, setTabValue] = useState(0);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [transferHotel, setTransferHotel] = useState<Hotel | null>(null);
+  const [transferTo, setTransferTo] = useState('');
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+  const usersResult = useQuery(queryKeys.adminUsers({ search: query }), () => adminService.listUsers({ search: query }));
+  const allUsersResult = useQuery(queryKeys.adminUsers(), () => adminService.listUsers(), { enabled: tabValue === 1 });
+  const hotelsResult = useQuery(queryKeys.hotelList(), () => hotelsService.list(), { enabled: tabValue === 1 });
+  const users = usersResult.data ?? [];
+  const allUsers = allUsersResult.data ?? [];
+  const hotels = hotelsResult.data ?? [];
+  const activeOperators = allUsers.filter(item => item.role === 'operator' && !item.suspended);
+
+  const showError = (error: unknown, fallback: string) => {
+    setSnackbar({ open: true, message: getErrorMessage(error, fallback), severity: 'error' });
+  };
+
+  const handleRoleChange = async (target: AdminUser, role: Role) => {
+    try {
+      await adminService.updateUser(target.id, { role });
+      setSnackbar({ open: true, message: `${target.email} is now ${ROLE_LABELS[role]}`, severity: 'success' });
+    } catch (error) {
+      showError(error, 'Failed to change role');
+    }
+  };
+
+  const handleToggleSuspended = async (target: AdminUser) => {
+    try {
+      await adminService.updateUser(target.id, { suspended: !target.suspended });
+      setSnackbar({
+        open: true,
+        message: target.suspended ? `${target.email} reactivated` : `${target.email} suspended`,
+        severity: 'success',
+      });
+    } catch (error) {
+      showError(error, 'Failed to update user');
+    }
+  };
+
+  const handleOpenTransfer = (hotel: Hotel) => {
+    setTransferHotel(hotel);
+    setTransferTo('');
+  };
+
+  const handleTransfer = async () => {
+    if (!transferHotel || !transferTo) return;
+    try {
+      const response = await adminService.transferHotel(transferHotel.id, Number(transferTo));
+      setSnackbar({ open: true, message: response.message || 'Hotel transferred', severity: 'success' });
+      setTransferHotel(null);
+    } catch (error) {
+      showError(error, 'Transfer failed');
+    }
+  };
+
+  const ownerLabel = (hotel: Hotel) => {
+    if (!hotel.operatorId) return 'Unassigned';
+    const owner = allUsers.find(item => item.id === hotel.operatorId);
+    if (!owner) return `Unknown account #${hotel.operatorId}`;
+    return owner.suspended ? `${owner.email} (suspended)` : owner.email;
+  };
+
+  return (
+    <Box maxWidth={1200} mx="auto" mt={4} p={2}>
+      <Typography variant="h4" gutterBottom>Admin Console</Typography>
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+        <Tabs value={tabValue} onChange={(event, newValue) => setTabValue(newValue)}>
+          <Tab label="Users" />
+          <Tab label="Hotel Ownership" />
+        </Tabs>
+      </Box>
+
+      <TabPanel value={tabValue} index={0}>
+        <Box display="flex" mb={3} sx={{ maxWidth: 600 }}>
+          <TextField
+            label="Search by email or name"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && setQuery(search.trim())}
+            sx={{ flex: 1, mr: 2 }}
+            InputProps={{
+              endAdornment: <SearchIcon color="action" />
+            }}
+          />
+          <Button variant="contained" onClick={() => setQuery(search.trim())} sx={{ minWidth: 100 }}>
+            Search
+          </Button>
+        </Box>
+
+        {usersResult.isLoading ? (
+          <Typography>Loading...</Typography>
+        ) : usersResult.error && !usersResult.data ? (
+          <Alert
+            severity="error"
+            action={<Button color="inherit" size="small" onClick={() => usersResult.refetch().catch(() => undefined)}>Retry</Button>}
+          >
+            {getErrorMessage(usersResult.error, 'Failed to load users')}
+          </Alert>
+        ) : users.length === 0 ? (
+          <Typography color="text.secondary">No users found</Typography>
+        ) : (
+          <TableContainer component={Card}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>User</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Hotels</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {users.map(item => {
+                  const isSelf = item.id === user?.id;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <Typography>{item.email}</Typography>
+                        {item.displayName && (
+                          <Typography variant="body2" color="text.secondary">{item.displayName}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          select
+                          size="small"
+                          value={item.role}
+                          disabled={isSelf}
+                          onChange={e => handleRoleChange(item, e.target.value as Role)}
+                        >
+                          {ROLE_OPTIONS.map(role => (
+                            <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>
+                          ))}
+                        </TextField>
+                      </TableCell>
+                      <TableCell>
+                        <Box display="flex" gap={1}>
+                          <Chip
+                            label={item.suspended ? 'Suspended' : 'Active'}
+                            color={item.suspended ? 'error' : 'success'}
+                            size="small"
+                          />
+                          {item.emailVerified === false && <Chip label="Unverified" color="warning" size="small" />}
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right">{item.hotelCount}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          color={item.suspended ? 'primary' : 'error'}
+                          disabled={isSelf}
+                          onClick={() => handleToggleSuspended(item)}
+                        >
+                          {item.suspended ? 'Reactivate' : 'Suspend'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </TabPanel>
+
+      <TabPanel value={tabValue} index={1}>
+        {hotelsResult.isLoading || allUsersResult.isLoading ? (
+          <Typography>Loading...</Typography>
+        ) : (
+          <TableContainer component={Card}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Hotel</TableCell>
+                  <TableCell>Owner</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {hotels.map(hotel => (
+                  <TableRow key={hotel.id}>
+                    <TableCell>
+                      <Typography>{hotel.name}</Typography>
+                      <Typography variant="body2" color="text.secondary">{hotel.address}</Typography>
+                    </TableCell>
+                    <TableCell>{ownerLabel(hotel)}</TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => handleOpenTransfer(hotel)}>Transfer</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </TabPanel>
+
+      <Dialog open={Boolean(transferHotel)} onClose={() => setTransferHotel(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Transfer {transferHotel?.name}</DialogTitle>
+        <DialogContent>
+          {activeOperators.length === 0 ? (
+            <Alert severity="info">There are no active operators to transfer this hotel to.</Alert>
+          ) : (
+            <TextField
+              select
+              fullWidth
+              margin="normal"
+              label="New owner"
+              value={transferTo}
+              onChange={e => setTransferTo(e.target.value)}
+            >
+              {activeOperators
+                .filter(operator => operator.id !== transferHotel?.operatorId)
+                .map(operator => (
+                  <MenuItem key={operator.id} value={String(operator.id)}>
+                    {operator.email} ({operator.hotelCount} hotel(s))
+                  </MenuItem>
+                ))}
+            </TextField>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTransferHotel(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleTransfer} disabled={!transferTo}>
+            Transfer
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={6000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import { TextField, Button, Box, Typography, Alert, Link } from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+
+const ForgotPassword: React.FC = () => {
+  const [error, setError] = useState('');
+  const [sentTo, setSentTo] = useState('');
+
+  const formik = useFormik({
+    initialValues: {
+      email: '',
+    },
+    validationSchema: Yup.object({
+      email: Yup.string().email('Please enter a valid email').required('Please enter your email'),
+    }),
+    onSubmit: async (values) => {
+      setError('');
+      try {
+        await authService.requestPasswordReset(values.email);
+        setSentTo(values.email);
+      } catch (err) {
+        if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Failed to send reset email, please try again'));
+        }
+      }
+    },
+  });
+
+  return (
+    <Box maxWidth={400} mx="auto" mt={4}>
+      <Typography variant="h5" mb={2}>Forgot Password</Typography>
+      {sentTo ? (
+        <Alert severity="success">
+          If an account exists for {sentTo}, a password reset link has been sent. The link expires in 30 minutes.
+        </Alert>
+      ) : (
+        <form onSubmit={formik.handleSubmit}>
+          <Typography color="text.secondary">
+            Enter the email you registered with and we will send you a link to reset your password.
+          </Typography>
+          <TextField
+            fullWidth
+            margin="normal"
+            id="email"
+            name="email"
+            label="Email"
+            value={formik.values.email}
+            onChange={formik.handleChange}
+            error={formik.touched.email && Boolean(formik.errors.email)}
+            helperText={formik.touched.email && formik.errors.email}
+          />
+          {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+          <Button
+            color="primary"
+            variant="contained"
+            fullWidth
+            type="submit"
+            disabled={formik.isSubmitting}
+            sx={{ mt: 2 }}
+          >
+            Send Reset Link
+          </Button>
+        </form>
+      )}
+      <Box mt={2}>
+        <Link component={RouterLink} to="/login">Back to Login</Link>
+      </Box>
+    </Box>
+  );
+};
+
+export default ForgotPassword;
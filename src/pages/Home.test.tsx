@@ -0,0 +1,79 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthProvider } from '../contexts/AuthContext';
+import { hotelsService } from '../services';
+import { Hotel } from '../types';
+import { ApiError } from '../utils/apiError';
+import { clearQueryCache } from '../utils/queryCache';
+import Home from './Home';
+
+const hotel: Hotel = { id: 1, name: 'Harbour View', address: '1 Quay St, Sydney', price: 420, availableRooms: 3 };
+
+const renderHome = (path = '/') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <AuthProvider>
+        <Home />
+      </AuthProvider>
+    </MemoryRouter>
+  );
+
+beforeEach(() => {
+  localStorage.clear();
+  clearQueryCache();
+  jest.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+});
+
+test('shows a load failure with a retry instead of the empty state', async () => {
+  const listPage = jest.spyOn(hotelsService, 'listPage')
+    .mockRejectedValueOnce(new ApiError({ code: 'NETWORK_ERROR', message: 'Unable to reach the server' }))
+    .mockResolvedValueOnce({ items: [hotel], total: 1, page: 1, pageSize: 9 });
+
+  renderHome();
+
+  expect(await screen.findByText('Unable to reach the server')).toBeInTheDocument();
+  expect(screen.queryByText('No hotels available')).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+  expect(await screen.findByText('Harbour View')).toBeInTheDocument();
+  expect(listPage).toHaveBeenCalledTimes(2);
+});
+
+test('shows the empty state when nothing matches', async () => {
+  jest.spyOn(hotelsService, 'listPage').mockResolvedValue({ items: [], total: 0, page: 1, pageSize: 9 });
+
+  renderHome('/?name=Nowhere');
+
+  expect(await screen.findByText('No hotels match your search')).toBeInTheDocument();
+});
+
+test('plots every matching hotel in map mode, not just the pages loaded so far', async () => {
+  const farAway: Hotel = { ...hotel, id: 2, name: 'Thames House', latitude: 51.5072, longitude: -0.1276 };
+  jest.spyOn(hotelsService, 'listPage').mockResolvedValue({ items: [hotel], total: 2, page: 1, pageSize: 9 });
+  const list = jest.spyOn(hotelsService, 'list').mockResolvedValue([hotel, farAway]);
+
+  renderHome('/?location=a&view=map');
+
+  expect(await screen.findByText('Showing 2 of 2 hotels')).toBeInTheDocument();
+  expect(screen.getByTitle('Thames House')).toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  expect(list).toHaveBeenCalledWith({ location: 'a' });
+});
+
+test('does not search from the search box while the filters are invalid', async () => {
+  const listPage = jest.spyOn(hotelsService, 'listPage').mockResolvedValue({ items: [hotel], total: 1, page: 1, pageSize: 9 });
+
+  renderHome();
+  expect(await screen.findByText('Harbour View')).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText('Check-in'), { target: { value: '2030-05-01' } });
+  const searchBox = screen.getByRole('combobox', { name: 'Search hotel name' });
+  fireEvent.change(searchBox, { target: { value: 'Quay' } });
+  fireEvent.keyDown(searchBox, { key: 'Enter' });
+
+  expect(screen.getByText('Select a check-out date')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Search' })).toBeDisabled();
+  expect(listPage).toHaveBeenCalledTimes(1);
+});
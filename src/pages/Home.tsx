@@ -1,7 +1,6 @@
-import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
-  TextField, 
   Box, 
   Typography, 
   Card, 
@@ -11,77 +10,127 @@ import {
   Chip,
   IconButton,
   Alert,
-  Snackbar
+  Snackbar,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
 import { 
-  Search as SearchIcon, 
   LocationOn, 
   AttachMoney, 
   Bed,
   Favorite as FavoriteIcon,
-  FavoriteBorder as FavoriteBorderIcon
+  FavoriteBorder as FavoriteBorderIcon,
+  Map as MapIcon,
+  ViewModule
 } from '@mui/icons-material';
+import HotelFilters from '../components/HotelFilters';
+import HotelMap from '../components/HotelMap';
+import HotelSearchBox from '../components/HotelSearchBox';
 import { useAuth } from '../contexts/AuthContext';
-import api from '../utils/api';
+import { useInfiniteQuery } from '../hooks/useInfiniteQuery';
+import { useQuery } from '../hooks/useQuery';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { favoritesService, hotelsService, queryKeys } from '../services';
+import { Hotel } from '../types';
+import { setQueryData } from '../utils/queryCache';
+import { getErrorMessage } from '../utils/apiError';
+import {
+  fromFilterForm,
+  hasRoomsFor,
+  HotelFilterForm,
+  readHotelQuery,
+  toFilterForm,
+  toHotelParams,
+  validateFilterForm,
+} from '../utils/hotelSearch';
 
-interface Hotel {
-  id: number;
-  name: string;
-  address: string;
-  description?: string;
-  price: number;
-  availableRooms: number;
-}
+const HOME_PAGE_SIZE = 9;
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [search, setSearch] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [favorites, setFavorites] = useState<number[]>([]);
+  const { user, can } = useAuth();
+  const canFavorite = can('favorite:manage');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const hotelQuery = useMemo(() => readHotelQuery(searchParams), [searchParams]);
+  const view = searchParams.get('view') === 'map' ? 'map' : 'list';
+  const [filterForm, setFilterForm] = useState<HotelFilterForm>(() => toFilterForm(hotelQuery));
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
 
-  const fetchHotels = async (name?: string) => {
-    setLoading(true);
-    try {
-      const res = await api.get('/hotels', { params: name ? { name } : {} });
-      setHotels(res.data);
-    } catch {
-      setHotels([]);
-    }
-    setLoading(false);
+  useEffect(() => {
+    setFilterForm(toFilterForm(hotelQuery));
+  }, [hotelQuery]);
+
+  const hotelsResult = useInfiniteQuery(
+    queryKeys.hotelPages(hotelQuery),
+    page => hotelsService.listPage(hotelQuery, page, HOME_PAGE_SIZE)
+  );
+  // The map plots every match at once, so it loads the whole result set rather than the pages seen so far.
+  const mapResult = useQuery(
+    queryKeys.hotelList(hotelQuery),
+    () => hotelsService.list(hotelQuery),
+    { enabled: view === 'map' }
+  );
+  const favoritesResult = useQuery(queryKeys.favorites, favoritesService.list, { enabled: canFavorite });
+  const hotels = hotelsResult.items;
+  const loading = hotelsResult.isLoading;
+  const { hasNextPage, isFetchingNextPage, nextPageError, fetchNextPage } = hotelsResult;
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+
+  useScrollRestoration(`home?${searchParams.toString()}`, !loading);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (view !== 'list' || !sentinel || !hasNextPage || nextPageError || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [view, hasNextPage, nextPageError, fetchNextPage]);
+  const favorites = canFavorite ? (favoritesResult.data ?? []).map(hotel => hotel.id) : [];
+
+  const applyFilters = (form: HotelFilterForm, nextView = view) => {
+    const params = toHotelParams(fromFilterForm(form));
+    setSearchParams(nextView === 'map' ? { ...params, view: 'map' } : params);
   };
 
-  const fetchFavorites = async () => {
-    if (!user) return;
-    
-    try {
-      const response = await api.get('/favorites');
-      const favoriteIds = response.data.map((hotel: any) => hotel.id);
-      setFavorites(favoriteIds);
-    } catch (error) {
-      console.error('Error:', error);
-    }
+  const handleViewChange = (nextView: 'list' | 'map') => {
+    applyFilters(toFilterForm(hotelQuery), nextView);
   };
 
-  useEffect(() => {
-    fetchHotels();
-    fetchFavorites();
-  }, [user]);
+  const filterFormInvalid = Object.keys(validateFilterForm(filterForm)).length > 0;
 
+  // The search box, the Search button and the filters' Apply all submit here; the filters show what's wrong.
   const handleSearch = () => {
-    fetchHotels(search);
+    if (filterFormInvalid) return;
+    applyFilters(filterForm);
   };
 
-  const handleKeyPress = (event: React.KeyboardEvent) => {
-    if (event.key === 'Enter') {
-      handleSearch();
+  const handleFilterChange = (field: keyof HotelFilterForm, value: string) => {
+    const next = { ...filterForm, [field]: value };
+    setFilterForm(next);
+    if (field === 'sort') {
+      applyFilters(next);
     }
   };
 
+  const handleClearFilters = () => {
+    applyFilters(toFilterForm({ name: filterForm.name.trim() || undefined }));
+  };
+
+  const handleSelectLocation = (location: string) => {
+    if (filterFormInvalid) return;
+    applyFilters({ ...filterForm, name: '', location });
+  };
+
   const handleViewDetails = (hotelId: number) => {
-    navigate(`/hotel/${hotelId}`);
+    const search = searchParams.toString();
+    const { checkIn, checkOut, guests } = hotelQuery;
+    const stay = new URLSearchParams(toHotelParams({ checkIn, checkOut, guests })).toString();
+    navigate(`/hotel/${hotelId}${stay ? `?${stay}` : ''}`, { state: { backTo: search ? `/?${search}` : '/' } });
   };
 
   const handleToggleFavorite = async (hotelId: number) => {
@@ -92,18 +141,21 @@ const Home: React.FC = () => {
 
     try {
       if (favorites.includes(hotelId)) {
-        await api.delete(`/favorites/${hotelId}`);
-        setFavorites(favorites.filter(id => id !== hotelId));
+        await favoritesService.remove(hotelId);
+        setQueryData<Hotel[]>(queryKeys.favorites, previous => (previous ?? []).filter(hotel => hotel.id !== hotelId));
         setSnackbar({ open: true, message: 'Removed from favorites', severity: 'success' });
       } else {
-        await api.post('/favorites', { hotelId });
-        setFavorites([...favorites, hotelId]);
+        await favoritesService.add(hotelId);
+        const hotel = hotels.find(item => item.id === hotelId);
+        if (hotel) {
+          setQueryData<Hotel[]>(queryKeys.favorites, previous => [...(previous ?? []), hotel]);
+        }
         setSnackbar({ open: true, message: 'Added to favorites', severity: 'success' });
       }
-    } catch (error: any) {
+    } catch (error) {
       setSnackbar({ 
         open: true, 
-        message: error.response?.data?.message || 'Operation failed', 
+        message: getErrorMessage(error, 'Operation failed'), 
         severity: 'error' 
       });
     }
@@ -119,151 +171,228 @@ const Home: React.FC = () => {
         Discover the perfect travel accommodation
       </Typography>
 
-      <Box display="flex" mb={4} sx={{ maxWidth: 600, mx: 'auto' }}>
-        <TextField
-          label="Search hotel name"
-          value={search}
-          onChange={e => setSearch(e.target.value)}
-          onKeyPress={handleKeyPress}
-          sx={{ flex: 1, mr: 2 }}
-          InputProps={{
-            endAdornment: <SearchIcon color="action" />
-          }}
+      <Box display="flex" mb={2} sx={{ maxWidth: 600, mx: 'auto' }}>
+        <HotelSearchBox
+          value={filterForm.name}
+          onChange={name => setFilterForm(current => ({ ...current, name }))}
+          onSearch={handleSearch}
+          onSelectHotel={handleViewDetails}
+          onSelectLocation={handleSelectLocation}
         />
         <Button 
           variant="contained" 
           onClick={handleSearch}
+          disabled={filterFormInvalid}
           sx={{ minWidth: 100 }}
         >
           Search
         </Button>
       </Box>
 
+      <HotelFilters
+        values={filterForm}
+        onChange={handleFilterChange}
+        onApply={handleSearch}
+        onClear={handleClearFilters}
+      />
+
       {loading ? (
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
           <Typography>Loading...</Typography>
         </Box>
+      ) : hotelsResult.error && hotels.length === 0 ? (
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => hotelsResult.refetch().catch(() => undefined)}>Retry</Button>}
+        >
+          {getErrorMessage(hotelsResult.error, 'Failed to load hotels')}
+        </Alert>
       ) : hotels.length === 0 ? (
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
-          <Typography color="text.secondary">No hotels available</Typography>
+          <Typography color="text.secondary">
+            {searchParams.toString() ? 'No hotels match your search' : 'No hotels available'}
+          </Typography>
         </Box>
       ) : (
-        <Box sx={{ 
-          display: 'grid', 
-          gridTemplateColumns: { 
-            xs: '1fr', 
-            sm: 'repeat(2, 1fr)', 
-            md: 'repeat(3, 1fr)' 
-          }, 
-          gap: 3 
-        }}>
-          {hotels.map(hotel => (
-            <Card key={hotel.id} sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-              <CardContent sx={{ flexGrow: 1 }}>
-                <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
-                  <Typography
-                    variant="h6"
-                    sx={{
-                      flex: 1,
-                      mr: 1,
-                      whiteSpace: 'nowrap',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                    }}
-                  >
-                    {hotel.name}
-                  </Typography>
-                  <IconButton
-                    size="small"
-                    onClick={() => handleToggleFavorite(hotel.id)}
-                    color={favorites.includes(hotel.id) ? 'error' : 'default'}
-                  >
-                    {favorites.includes(hotel.id) ? <FavoriteIcon /> : <FavoriteBorderIcon />}
-                  </IconButton>
-                </Box>
+        <>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+            <Typography variant="body2" color="text.secondary">
+              Showing {view === 'map' && mapResult.data ? mapResult.data.length : hotels.length} of {hotelsResult.total} hotels
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_, value) => value && handleViewChange(value)}
+            >
+              <ToggleButton value="list"><ViewModule fontSize="small" sx={{ mr: 0.5 }} />List</ToggleButton>
+              <ToggleButton value="map"><MapIcon fontSize="small" sx={{ mr: 0.5 }} />Map</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+          {view === 'map' ? (
+            <>
+              {!mapResult.data && (
+                <Alert
+                  severity={mapResult.error ? 'warning' : 'info'}
+                  sx={{ mb: 2 }}
+                  action={Boolean(mapResult.error) && (
+                    <Button color="inherit" size="small" onClick={() => mapResult.refetch().catch(() => undefined)}>
+                      Retry
+                    </Button>
+                  )}
+                >
+                  {mapResult.error
+                    ? `Couldn't load every matching hotel, so the map only shows the ${hotels.length} loaded so far.`
+                    : `Loading every matching hotel. The map shows the ${hotels.length} loaded so far.`}
+                </Alert>
+              )}
+              <HotelMap hotels={mapResult.data ?? hotels} onViewDetails={handleViewDetails} />
+            </>
+          ) : (
+            <Box sx={{ 
+              display: 'grid', 
+              gridTemplateColumns: { 
+                xs: '1fr', 
+                sm: 'repeat(2, 1fr)', 
+                md: 'repeat(3, 1fr)' 
+              }, 
+              gap: 3 
+            }}>
+              {hotels.map(hotel => (
+                <Card key={hotel.id} sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+                  <CardContent sx={{ flexGrow: 1 }}>
+                    <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+                      <Typography
+                        variant="h6"
+                        sx={{
+                          flex: 1,
+                          mr: 1,
+                          whiteSpace: 'nowrap',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                        }}
+                      >
+                        {hotel.name}
+                      </Typography>
+                      {(!user || canFavorite) && (
+                        <IconButton
+                          size="small"
+                          onClick={() => handleToggleFavorite(hotel.id)}
+                          color={favorites.includes(hotel.id) ? 'error' : 'default'}
+                        >
+                          {favorites.includes(hotel.id) ? <FavoriteIcon /> : <FavoriteBorderIcon />}
+                        </IconButton>
+                      )}
+                    </Box>
                 
-                <Box display="flex" alignItems="center" mb={1}>
-                  <LocationOn color="action" sx={{ mr: 1, fontSize: 20 }} />
-                  <Typography
-                    variant="body2"
-                    color="text.secondary"
-                    sx={{
-                      whiteSpace: 'nowrap',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      width: '100%',
-                      maxWidth: '220px',
-                    }}
-                  >
-                    {hotel.address}
-                  </Typography>
-                </Box>
+                    <Box display="flex" alignItems="center" mb={1}>
+                      <LocationOn color="action" sx={{ mr: 1, fontSize: 20 }} />
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        sx={{
+                          whiteSpace: 'nowrap',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          width: '100%',
+                          maxWidth: '220px',
+                        }}
+                      >
+                        {hotel.address}
+                      </Typography>
+                    </Box>
 
-                {hotel.description && (
-                  <Typography
-                    variant="body2"
-                    color="text.secondary"
-                    paragraph
-                    sx={{
-                      display: '-webkit-box',
-                      WebkitLineClamp: 2,
-                      WebkitBoxOrient: 'vertical',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      minHeight: '3.2em', 
-                    }}
-                  >
-                    {hotel.description}
-                  </Typography>
-                )}
+                    {hotel.description && (
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        paragraph
+                        sx={{
+                          display: '-webkit-box',
+                          WebkitLineClamp: 2,
+                          WebkitBoxOrient: 'vertical',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          minHeight: '3.2em', 
+                        }}
+                      >
+                        {hotel.description}
+                      </Typography>
+                    )}
 
-                <Box display="flex" alignItems="center" mb={1}>
-                  <AttachMoney color="primary" sx={{ mr: 1 }} />
-                  <Typography variant="h6" color="primary">
-                    ¥{hotel.price}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
-                    / night
-                  </Typography>
-                </Box>
+                    <Box display="flex" alignItems="center" mb={1}>
+                      <AttachMoney color="primary" sx={{ mr: 1 }} />
+                      <Typography variant="h6" color="primary">
+                        ¥{hotel.stay ? hotel.stay.nightlyPrice : hotel.price}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                        / night
+                      </Typography>
+                    </Box>
+                    {hotel.stay && (
+                      <Typography variant="body2" color="text.secondary" mb={1}>
+                        ¥{hotel.stay.totalPrice} total for {hotel.stay.nights} {hotel.stay.nights === 1 ? 'night' : 'nights'}
+                        {hotel.stay.rooms > 1 && `, ${hotel.stay.rooms} rooms`}
+                      </Typography>
+                    )}
 
-                <Box display="flex" alignItems="center" mb={2}>
-                  <Bed color="action" sx={{ mr: 1 }} />
-                  <Typography variant="body2">
-                    Available rooms: {hotel.availableRooms}
-                  </Typography>
-                  {hotel.availableRooms > 0 ? (
-                    <Chip 
-                      label="Available" 
-                      color="success" 
-                      size="small" 
-                      sx={{ ml: 1 }}
-                      onClick={(e) => e.preventDefault()}
-                    />
-                  ) : (
-                    <Chip 
-                      label="Unavailable" 
-                      color="error" 
-                      size="small" 
-                      sx={{ ml: 1 }}
-                      onClick={(e) => e.preventDefault()}
-                    />
-                  )}
-                </Box>
-              </CardContent>
+                    <Box display="flex" alignItems="center" mb={2}>
+                      <Bed color="action" sx={{ mr: 1 }} />
+                      <Typography variant="body2">
+                        {hotel.stay
+                          ? `Rooms free for your dates: ${hotel.stay.availableRooms}`
+                          : `Rooms free tonight: ${hotel.availableRooms}`}
+                      </Typography>
+                      {hasRoomsFor(hotel) ? (
+                        <Chip 
+                          label="Available" 
+                          color="success" 
+                          size="small" 
+                          sx={{ ml: 1 }}
+                          onClick={(e) => e.preventDefault()}
+                        />
+                      ) : (
+                        <Chip 
+                          label="Unavailable" 
+                          color="error" 
+                          size="small" 
+                          sx={{ ml: 1 }}
+                          onClick={(e) => e.preventDefault()}
+                        />
+                      )}
+                    </Box>
+                  </CardContent>
               
-              <CardActions sx={{ p: 2, pt: 0 }}>
-                <Button 
-                  variant="contained" 
-                  fullWidth
-                  onClick={() => handleViewDetails(hotel.id)}
+                  <CardActions sx={{ p: 2, pt: 0 }}>
+                    <Button 
+                      variant="contained" 
+                      fullWidth
+                      onClick={() => handleViewDetails(hotel.id)}
+                    >
+                      View Details
+                    </Button>
+                  </CardActions>
+                </Card>
+              ))}
+            </Box>
+          )}
+          {view === 'list' && (
+            <Box ref={loadMoreRef} display="flex" justifyContent="center" py={3}>
+              {isFetchingNextPage && <CircularProgress size={28} />}
+              {Boolean(nextPageError) && !isFetchingNextPage && (
+                <Alert
+                  severity="error"
+                  action={<Button color="inherit" size="small" onClick={fetchNextPage}>Retry</Button>}
                 >
-                  View Details
-                </Button>
-              </CardActions>
-            </Card>
-          ))}
-        </Box>
+                  {getErrorMessage(nextPageError, 'Failed to load more hotels')}
+                </Alert>
+              )}
+              {hasNextPage && !isFetchingNextPage && !nextPageError && (
+                <Button variant="outlined" onClick={fetchNextPage}>Load more</Button>
+              )}
+            </Box>
+          )}
+        </>
       )}
 
       <Snackbar
@@ -0,0 +1,63 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { AuthProvider } from '../contexts/AuthContext';
+import { hotelsService } from '../services';
+import { Hotel } from '../types';
+import { clearQueryCache } from '../utils/queryCache';
+import HotelDetail from './HotelDetail';
+
+const hotel: Hotel = { id: 1, name: 'Harbour View', address: '1 Quay St, Sydney', price: 420, totalRooms: 5, availableRooms: 3 };
+
+const renderDetail = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <AuthProvider>
+        <Routes>
+          <Route path="/hotel/:id" element={<HotelDetail />} />
+        </Routes>
+      </AuthProvider>
+    </MemoryRouter>
+  );
+
+beforeEach(() => {
+  localStorage.clear();
+  clearQueryCache();
+});
+
+test('quotes the stay from the URL and blocks booking when a night is full', async () => {
+  const get = jest.spyOn(hotelsService, 'get').mockResolvedValue({
+    ...hotel,
+    stay: {
+      checkInDate: '2030-03-01',
+      checkOutDate: '2030-03-03',
+      nights: 2,
+      guests: 3,
+      rooms: 2,
+      availableRooms: 1,
+      availabilityByDate: [
+        { date: '2030-03-01', availableRooms: 4 },
+        { date: '2030-03-02', availableRooms: 1 },
+      ],
+      nightlyPrice: 840,
+      totalPrice: 1680,
+    },
+  });
+
+  renderDetail('/hotel/1?checkIn=2030-03-01&checkOut=2030-03-03&guests=3');
+
+  expect(await screen.findByText(/¥1680 for 2 nights/)).toBeInTheDocument();
+  expect(screen.getByText('2030-03-02: 1 free')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'No Rooms for These Dates' })).toBeDisabled();
+  expect(get).toHaveBeenCalledWith('1', { checkIn: '2030-03-01', checkOut: '2030-03-03', guests: 3 });
+});
+
+test('rejects a guest count that a single booking cannot take instead of quoting it', async () => {
+  const get = jest.spyOn(hotelsService, 'get').mockResolvedValue(hotel);
+
+  renderDetail('/hotel/1?checkIn=2030-03-01&checkOut=2030-03-03&guests=12');
+
+  expect(await screen.findByText(/Bookings are for 1 to 10 guests/)).toBeInTheDocument();
+  expect(screen.getByText('Rooms free tonight: 3 of 5')).toBeInTheDocument();
+  expect(get).toHaveBeenCalledWith('1', {});
+});
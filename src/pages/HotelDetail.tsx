@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -19,51 +19,64 @@ import {
 import { LocationOn, AttachMoney, Bed } from '@mui/icons-material';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import api from '../utils/api';
+import { bookingsService, hotelsService, queryKeys } from '../services';
 import { useAuth } from '../contexts/AuthContext';
-
-interface Hotel {
-  id: number;
-  name: string;
-  address: string;
-  description?: string;
-  price: number;
-  availableRooms: number;
-  operatorId: number;
-}
+import { useQuery } from '../hooks/useQuery';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { hasRoomsFor, isBookableGuestCount, MAX_GUESTS_PER_BOOKING, readStay, roomInventory } from '../utils/hotelSearch';
+import { buildLoginRedirectState } from '../utils/redirect';
+import { RedirectTargetState, StayQuery } from '../types';
 
 const HotelDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [hotel, setHotel] = useState<Hotel | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const stay = readStay(searchParams);
+  const guestsOutOfRange = stay.guests !== undefined && !isBookableGuestCount(stay.guests);
+  // A stay we can't book isn't quoted, so the page falls back to tonight's availability.
+  const quotedStay: StayQuery = guestsOutOfRange ? {} : stay;
+  const { user, emailVerified } = useAuth();
+  const hotelResult = useQuery(
+    queryKeys.hotel(id ?? '', quotedStay),
+    () => hotelsService.get(id!, quotedStay),
+    { enabled: Boolean(id) }
+  );
+  const hotel = hotelResult.data ?? null;
+  const loading = hotelResult.isLoading;
+  const error = hotelResult.error && !hotel
+    ? getErrorMessage(hotelResult.error, 'Fail to get hotel data')
+    : '';
   const [openBookingDialog, setOpenBookingDialog] = useState(false);
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
 
   const bookingFormik = useFormik({
     initialValues: {
-      checkInDate: '',
-      checkOutDate: '',
-      guestCount: 1,
+      checkInDate: stay.checkIn ?? '',
+      checkOutDate: stay.checkOut ?? '',
+      guestCount: stay.guests ?? 1,
       specialRequests: '',
     },
+    initialTouched: { guestCount: guestsOutOfRange },
+    validateOnMount: true,
     validationSchema: Yup.object({
       checkInDate: Yup.date().required('Please select a check-in date'),
       checkOutDate: Yup.date()
         .min(Yup.ref('checkInDate'), 'Check-out date must be after check-in date')
         .required('Please select a check-out date'),
       guestCount: Yup.number()
+        .integer('Enter a whole number of guests')
         .min(1, 'At least 1 guest')
-        .max(10, 'Up to 10 guests')
+        .max(MAX_GUESTS_PER_BOOKING, `Up to ${MAX_GUESTS_PER_BOOKING} guests per booking`)
         .required('Please enter the number of guests'),
       specialRequests: Yup.string(),
     }),
     onSubmit: async (values) => {
       try {
-        const response = await api.post('/bookings', {
-          hotelId: hotel?.id,
+        if (!hotel) return;
+        const response = await bookingsService.create({
+          hotelId: hotel.id,
           checkInDate: values.checkInDate,
           checkOutDate: values.checkOutDate,
           guestCount: values.guestCount,
@@ -72,47 +85,48 @@ const HotelDetail: React.FC = () => {
         
         setSnackbar({ 
           open: true, 
-          message: response.data.message || 'Booking successful, we will contact you soon', 
+          message: response.message || 'Booking successful, we will contact you soon', 
           severity: 'success' 
         });
         setOpenBookingDialog(false);
         bookingFormik.resetForm();
-        
-        if (id) {
-          const hotelResponse = await api.get(`/hotels/${id}`);
-          setHotel(hotelResponse.data);
+      } catch (error) {
+        if (!applyFieldErrors(bookingFormik, error)) {
+          setSnackbar({ 
+            open: true, 
+            message: getErrorMessage(error, 'Booking failed'), 
+            severity: 'error' 
+          });
         }
-      } catch (error: any) {
-        setSnackbar({ 
-          open: true, 
-          message: error.response?.data?.message || 'Booking failed', 
-          severity: 'error' 
-        });
       }
     },
   });
 
-  useEffect(() => {
-    const fetchHotel = async () => {
-      try {
-        setLoading(true);
-        const response = await api.get(`/hotels/${id}`);
-        setHotel(response.data);
-      } catch (error: any) {
-        setError(error.response?.data?.message || 'Fail to get hotel data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const { checkInDate, checkOutDate, guestCount } = bookingFormik.values;
+  const dialogStay: StayQuery = { checkIn: checkInDate, checkOut: checkOutDate, guests: Number(guestCount) };
+  const dialogStayValid = Boolean(checkInDate && checkOutDate && checkInDate < checkOutDate)
+    && isBookableGuestCount(Number(guestCount));
+  const quoteResult = useQuery(
+    queryKeys.hotel(id ?? '', dialogStay),
+    () => hotelsService.get(id!, dialogStay),
+    { enabled: Boolean(id) && openBookingDialog && dialogStayValid }
+  );
+  const quote = dialogStayValid ? quoteResult.data?.stay ?? null : null;
+  const quoteUnavailable = Boolean(quote && quoteResult.data && !hasRoomsFor(quoteResult.data));
+
+  const { pendingAction, backTo = '/' } = (location.state as RedirectTargetState | null) ?? {};
 
-    if (id) {
-      fetchHotel();
+  useEffect(() => {
+    if (pendingAction !== 'openBookingDialog' || !user || !hotel) return;
+    if (hasRoomsFor(hotel) && emailVerified) {
+      setOpenBookingDialog(true);
     }
-  }, [id]);
+    navigate(`${location.pathname}${location.search}${location.hash}`, { replace: true, state: { backTo } });
+  }, [pendingAction, backTo, user, emailVerified, hotel, navigate, location.pathname, location.search, location.hash]);
 
   const handleBooking = () => {
     if (!user) {
-      navigate('/login');
+      navigate('/login', { state: buildLoginRedirectState(location, { pendingAction: 'openBookingDialog' }) });
       return;
     }
     setOpenBookingDialog(true);
@@ -134,7 +148,7 @@ const HotelDetail: React.FC = () => {
         </Alert>
         <Button 
           variant="contained" 
-          onClick={() => navigate('/')} 
+          onClick={() => navigate(backTo)} 
           sx={{ mt: 2 }}
         >
           Back to Home
@@ -143,6 +157,9 @@ const HotelDetail: React.FC = () => {
     );
   }
 
+  const bookable = hasRoomsFor(hotel);
+  const stayQuote = hotel.stay ?? null;
+
   return (
     <Box maxWidth={1000} mx="auto" mt={4} p={2}>
       <Card>
@@ -181,9 +198,11 @@ const HotelDetail: React.FC = () => {
               <Box display="flex" alignItems="center" mb={2}>
                 <Bed color="action" sx={{ mr: 1 }} />
                 <Typography variant="body1">
-                  Available rooms: {hotel.availableRooms}
+                  {hotel.stay
+                    ? `Rooms free for your dates: ${hotel.stay.availableRooms} of ${roomInventory(hotel)}`
+                    : `Rooms free tonight: ${hotel.availableRooms} of ${roomInventory(hotel)}`}
                 </Typography>
-                {hotel.availableRooms > 0 ? (
+                {bookable ? (
                   <Chip 
                     label="Available" 
                     color="success" 
@@ -204,19 +223,53 @@ const HotelDetail: React.FC = () => {
             </Box>
           </Box>
 
+          {stayQuote && (
+            <Box mt={1}>
+              <Typography variant="body1">
+                {stayQuote.checkInDate} to {stayQuote.checkOutDate}
+                {' · '}{stayQuote.guests} {stayQuote.guests === 1 ? 'guest' : 'guests'}
+                {' · '}{stayQuote.rooms} {stayQuote.rooms === 1 ? 'room' : 'rooms'}
+                {' · '}¥{stayQuote.totalPrice} for {stayQuote.nights} {stayQuote.nights === 1 ? 'night' : 'nights'}
+              </Typography>
+              <Box display="flex" flexWrap="wrap" gap={1} mt={1}>
+                {stayQuote.availabilityByDate.map(night => (
+                  <Chip
+                    key={night.date}
+                    label={`${night.date}: ${night.availableRooms} free`}
+                    color={night.availableRooms >= stayQuote.rooms ? 'default' : 'error'}
+                    size="small"
+                    variant="outlined"
+                  />
+                ))}
+              </Box>
+            </Box>
+          )}
+
+          {guestsOutOfRange && (
+            <Alert severity="warning" sx={{ mt: 3 }}>
+              Bookings are for 1 to {MAX_GUESTS_PER_BOOKING} guests. Split larger groups across several bookings.
+            </Alert>
+          )}
+
+          {user && !emailVerified && (
+            <Alert severity="info" sx={{ mt: 3 }}>
+              Verify your email address to book this hotel.
+            </Alert>
+          )}
+
           <Box mt={3}>
             <Button
               variant="contained"
               size="large"
               onClick={handleBooking}
-              disabled={hotel.availableRooms === 0}
+              disabled={!bookable || Boolean(user && !emailVerified)}
               sx={{ mr: 2 }}
             >
-              {hotel.availableRooms > 0 ? 'Book Now' : 'No Rooms Available'}
+              {bookable ? 'Book Now' : hotel.stay ? 'No Rooms for These Dates' : 'No Rooms Available'}
             </Button>
             <Button
               variant="outlined"
-              onClick={() => navigate('/')}
+              onClick={() => navigate(backTo)}
             >
               Back to List
             </Button>
@@ -231,9 +284,21 @@ const HotelDetail: React.FC = () => {
             <Typography variant="h6" gutterBottom>
               {hotel.name}
             </Typography>
-            <Typography color="text.secondary" gutterBottom>
-              ¥{hotel.price} / night
-            </Typography>
+            {quote && !quoteUnavailable ? (
+              <Typography color="text.secondary" gutterBottom>
+                ¥{quote.nightlyPrice} / night for {quote.rooms} {quote.rooms === 1 ? 'room' : 'rooms'}
+                {' · '}¥{quote.totalPrice} for {quote.nights} {quote.nights === 1 ? 'night' : 'nights'}
+              </Typography>
+            ) : (
+              <Typography color="text.secondary" gutterBottom>
+                ¥{hotel.price} per room per night, one room for every two guests
+              </Typography>
+            )}
+            {quoteUnavailable && (
+              <Alert severity="error" sx={{ mb: 1 }}>
+                No rooms available for these dates
+              </Alert>
+            )}
             
             <TextField
               fullWidth
@@ -288,7 +353,7 @@ const HotelDetail: React.FC = () => {
           </DialogContent>
           <DialogActions>
             <Button onClick={() => setOpenBookingDialog(false)}>Cancel</Button>
-            <Button type="submit" variant="contained">
+            <Button type="submit" variant="contained" disabled={quoteUnavailable || bookingFormik.isSubmitting}>
               Submit Booking
             </Button>
           </DialogActions>
@@ -1,15 +1,64 @@
 import React, { useState } from 'react';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { TextField, Button, Box, Typography, Alert } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { TextField, Button, Box, Typography, Alert, Link } from '@mui/material';
+import { Link as RouterLink, useLocation, useNavigate } from 'react-router-dom';
+import BackupCodesList from '../components/BackupCodesList';
+import CaptchaChallenge from '../components/CaptchaChallenge';
+import TwoFactorCodeForm from '../components/TwoFactorCodeForm';
+import TwoFactorSetupPanel from '../components/TwoFactorSetupPanel';
 import { useAuth } from '../contexts/AuthContext';
-import api from '../utils/api';
+import { useCooldown } from '../hooks/useCooldown';
+import { authService, twoFactorService } from '../services';
+import { CaptchaChallenge as Captcha, LoginResponse, TwoFactorChallenge, TwoFactorSetup } from '../types';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { formatCountdown, readLoginThrottle } from '../utils/loginThrottle';
+import { readLoginRedirectState, resolvePostLoginRedirect } from '../utils/redirect';
 
 const Login: React.FC = () => {
   const [error, setError] = useState('');
   const { login } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectState = readLoginRedirectState(location.state);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorSetup | null>(null);
+  const [enrolledSession, setEnrolledSession] = useState<LoginResponse | null>(null);
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [captcha, setCaptcha] = useState<Captcha | null>(null);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const lockout = useCooldown();
+
+  const completeLogin = ({ token, refreshToken, user }: LoginResponse) => {
+    login(user, token, refreshToken);
+    const redirect = resolvePostLoginRedirect(redirectState, user);
+    navigate(redirect.to, { replace: true, state: redirect.state });
+  };
+
+  const resetChallenge = (message = '') => {
+    setChallenge(null);
+    setEnrollment(null);
+    setError(message);
+  };
+
+  const handleVerifyCode = async (code: string) => {
+    if (!challenge) return;
+    try {
+      const session = await twoFactorService.verifyLogin({ challengeToken: challenge.challengeToken, code });
+      if (session.backupCodes?.length) {
+        setEnrolledSession(session);
+      } else {
+        completeLogin(session);
+      }
+    } catch (err) {
+      if (toApiError(err).code === 'TWO_FACTOR_CHALLENGE_EXPIRED') {
+        resetChallenge(getErrorMessage(err, 'Your sign-in attempt has expired, please sign in again'));
+        return;
+      }
+      throw err;
+    }
+  };
 
   const formik = useFormik({
     initialValues: {
@@ -23,22 +72,85 @@ const Login: React.FC = () => {
     onSubmit: async (values) => {
       setError('');
       try {
-        const res = await api.post('/auth/login', {
+        const result = await authService.login({
           email: values.email,
           password: values.password,
+          captchaToken: captcha && captchaToken ? captchaToken : undefined,
         });
-        const { token, user } = res.data;
-        login(user, token);
-        navigate(user.role === 'operator' ? '/operator' : '/');
-      } catch (err: any) {
-        setError(err.response?.data?.message || 'Login failed, incorrect username or password');
+        setRemainingAttempts(null);
+        setCaptcha(null);
+        setCaptchaToken(null);
+        if (!('twoFactorRequired' in result)) {
+          completeLogin(result);
+          return;
+        }
+        const setup = result.enrollmentRequired ? await twoFactorService.setupLogin(result.challengeToken) : null;
+        setEnrollment(setup);
+        setChallenge(result);
+      } catch (err) {
+        const throttle = readLoginThrottle(err);
+        setRemainingAttempts(throttle.remainingAttempts);
+        setCaptcha(throttle.captcha);
+        setCaptchaToken(null);
+        if (throttle.lockedFor) {
+          lockout.start(throttle.lockedFor);
+        }
+        if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Login failed, incorrect username or password'));
+        }
       }
     },
   });
 
+  if (enrolledSession?.backupCodes) {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>Two-factor authentication enabled</Typography>
+        <BackupCodesList codes={enrolledSession.backupCodes} />
+        <Button color="primary" variant="contained" fullWidth sx={{ mt: 2 }} onClick={() => completeLogin(enrolledSession)}>
+          Continue
+        </Button>
+      </Box>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>
+          {challenge.enrollmentRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+        </Typography>
+        {challenge.enrollmentRequired ? (
+          <>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Your account requires two-factor authentication. Set it up to continue.
+            </Alert>
+            {enrollment && <TwoFactorSetupPanel setup={enrollment} />}
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Enter the code from your authenticator app, or use one of your backup codes.
+          </Typography>
+        )}
+        <TwoFactorCodeForm
+          onSubmit={handleVerifyCode}
+          submitLabel={challenge.enrollmentRequired ? 'Enable and sign in' : 'Verify'}
+          allowBackupCode={!challenge.enrollmentRequired}
+          onCancel={() => resetChallenge()}
+        />
+      </Box>
+    );
+  }
+
   return (
     <Box maxWidth={400} mx="auto" mt={4}>
       <Typography variant="h5" mb={2}>Login</Typography>
+      {redirectState.reason === 'sessionExpired' && (
+        <Alert severity="info" sx={{ mb: 2 }}>Your session has expired, please login again</Alert>
+      )}
+      {redirectState.reason === 'sessionRevoked' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>This device was signed out from another session, please login again</Alert>
+      )}
       <form onSubmit={formik.handleSubmit}>
         <TextField
           fullWidth
@@ -63,9 +175,35 @@ const Login: React.FC = () => {
           error={formik.touched.password && Boolean(formik.errors.password)}
           helperText={formik.touched.password && formik.errors.password}
         />
-        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
-        <Button color="primary" variant="contained" fullWidth type="submit" sx={{ mt: 2 }}>
-          Login
+        <Box display="flex" justifyContent="flex-end">
+          <Link component={RouterLink} to="/forgot-password" variant="body2">
+            Forgot password?
+          </Link>
+        </Box>
+        {captcha && !lockout.active && (
+          <CaptchaChallenge challenge={captcha} onChange={setCaptchaToken} />
+        )}
+        {lockout.active ? (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            Too many failed attempts. You can try again in {formatCountdown(lockout.remaining)}.
+          </Alert>
+        ) : (
+          error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+              {remainingAttempts !== null && ` ${remainingAttempts} ${remainingAttempts === 1 ? 'attempt' : 'attempts'} remaining before your account is temporarily locked.`}
+            </Alert>
+          )
+        )}
+        <Button
+          color="primary"
+          variant="contained"
+          fullWidth
+          type="submit"
+          sx={{ mt: 2 }}
+          disabled={formik.isSubmitting || lockout.active || Boolean(captcha && !captchaToken)}
+        >
+          {lockout.active ? `Locked (${formatCountdown(lockout.remaining)})` : 'Login'}
         </Button>
       </form>
     </Box>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -20,13 +20,23 @@ import {
   ListItemText,
   ListItemAvatar,
   Avatar,
-  Chip
+  Chip,
+  Pagination
 } from '@mui/material';
 import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon, CheckCircle as CheckCircleIcon, Done as DoneIcon } from '@mui/icons-material';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import api from '../utils/api';
+import { bookingsService, hotelsService, queryKeys } from '../services';
 import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { Coordinates, Hotel } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { roomInventory } from '../utils/hotelSearch';
+import { canManageHotel } from '../utils/permissions';
+import Can from '../components/Can';
+import InvitationManager from '../components/InvitationManager';
+import LocationPicker from '../components/LocationPicker';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -54,39 +64,30 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
-interface Hotel {
-  id: number;
-  name: string;
-  address: string;
-  description?: string;
-  price: number;
-  availableRooms: number;
-  operatorId: number;
-}
-
-interface Booking {
-  id: number;
-  hotelName: string;
-  hotelAddress: string;
-  userEmail: string;
-  checkInDate: string;
-  checkOutDate: string;
-  guestCount: number;
-  totalPrice: number;
-  status: string;
-  specialRequests?: string;
-  createdAt: string;
-}
+const HOTEL_PAGE_SIZE = 6;
 
 const OperatorDashboard: React.FC = () => {
-  const { user } = useAuth();
-  const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const { user, can } = useAuth();
+  const [hotelPage, setHotelPage] = useState(1);
+  const hotelsResult = useQuery(
+    queryKeys.hotelPage({}, hotelPage),
+    () => hotelsService.listPage({}, hotelPage, HOTEL_PAGE_SIZE)
+  );
+  const bookingsResult = useQuery(queryKeys.operatorBookings, bookingsService.listForOperator);
+  const hotels = hotelsResult.data?.items ?? [];
+  const hotelPageCount = Math.ceil((hotelsResult.data?.total ?? 0) / HOTEL_PAGE_SIZE);
+  const bookings = bookingsResult.data ?? [];
   const [tabValue, setTabValue] = useState(0);
   const [openDialog, setOpenDialog] = useState(false);
   const [editingHotel, setEditingHotel] = useState<Hotel | null>(null);
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
 
+  useEffect(() => {
+    if (hotelPageCount > 0 && hotelPage > hotelPageCount) {
+      setHotelPage(hotelPageCount);
+    }
+  }, [hotelPage, hotelPageCount]);
+
   const validationSchema = Yup.object({
     name: Yup.string().required('Hotel name is required'),
     address: Yup.string().required('Address is required'),
@@ -102,66 +103,39 @@ const OperatorDashboard: React.FC = () => {
       description: '',
       price: '',
       availableRooms: '',
+      latitude: '',
+      longitude: '',
     },
     validationSchema,
     onSubmit: async (values) => {
+      const input = {
+        ...values,
+        price: parseFloat(values.price),
+        availableRooms: parseInt(values.availableRooms),
+        latitude: values.latitude === '' ? null : Number(values.latitude),
+        longitude: values.longitude === '' ? null : Number(values.longitude),
+      };
       try {
         if (editingHotel) {
-          await api.put(`/hotels/${editingHotel.id}`, {
-            ...values,
-            price: parseFloat(values.price),
-            availableRooms: parseInt(values.availableRooms),
-          });
+          await hotelsService.update(editingHotel.id, input);
           setSnackbar({ open: true, message: 'Hotel updated successfully', severity: 'success' });
         } else {
-          await api.post('/hotels', {
-            ...values,
-            price: parseFloat(values.price),
-            availableRooms: parseInt(values.availableRooms),
-          });
+          await hotelsService.create(input);
           setSnackbar({ open: true, message: 'Hotel added successfully', severity: 'success' });
         }
-        fetchHotels();
         handleCloseDialog();
-      } catch (error: any) {
-        setSnackbar({ 
-          open: true, 
-          message: error.response?.data?.message || 'Operation failed', 
-          severity: 'error' 
-        });
+      } catch (error) {
+        if (!applyFieldErrors(formik, error)) {
+          setSnackbar({ 
+            open: true, 
+            message: getErrorMessage(error, 'Operation failed'), 
+            severity: 'error' 
+          });
+        }
       }
     },
   });
 
-  const fetchHotels = async () => {
-    try {
-      const response = await api.get('/hotels');
-      setHotels(response.data);
-    } catch (error) {
-      console.error('Failed to fetch hotel list:', error);
-    }
-  };
-
-  const fetchBookings = async () => {
-    try {
-      const response = await api.get('/bookings/operator');
-      setBookings(response.data);
-    } catch (error) {
-      console.error('Failed to fetch booking list:', error);
-    }
-  };
-
-  useEffect(() => {
-    fetchHotels();
-    fetchBookings();
-  }, []);
-
-  useEffect(() => {
-    if (tabValue === 1) {
-      fetchBookings();
-    }
-  }, [tabValue]);
-
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
@@ -174,7 +148,9 @@ const OperatorDashboard: React.FC = () => {
         address: hotel.address,
         description: hotel.description || '',
         price: hotel.price.toString(),
-        availableRooms: hotel.availableRooms.toString(),
+        availableRooms: roomInventory(hotel).toString(),
+        latitude: hotel.latitude?.toString() ?? '',
+        longitude: hotel.longitude?.toString() ?? '',
       });
     } else {
       setEditingHotel(null);
@@ -183,6 +159,19 @@ const OperatorDashboard: React.FC = () => {
     setOpenDialog(true);
   };
 
+  const hotelLocation = formik.values.latitude !== '' && formik.values.longitude !== ''
+    ? { latitude: Number(formik.values.latitude), longitude: Number(formik.values.longitude) }
+    : null;
+
+  const handleLocationChange = (location: Coordinates | null) => {
+    formik.setFieldValue('latitude', location ? location.latitude.toFixed(6) : '');
+    formik.setFieldValue('longitude', location ? location.longitude.toFixed(6) : '');
+  };
+
+  const canEditHotel = (hotel: Hotel) => can('hotel:edit') && canManageHotel(user, hotel);
+
+  const canDeleteHotel = (hotel: Hotel) => can('hotel:delete') && canManageHotel(user, hotel);
+
   const handleCloseDialog = () => {
     setOpenDialog(false);
     setEditingHotel(null);
@@ -192,13 +181,12 @@ const OperatorDashboard: React.FC = () => {
   const handleDeleteHotel = async (hotelId: number) => {
     if (window.confirm('Are you sure you want to delete this hotel?')) {
       try {
-        await api.delete(`/hotels/${hotelId}`);
+        await hotelsService.remove(hotelId);
         setSnackbar({ open: true, message: 'Hotel deleted successfully', severity: 'success' });
-        fetchHotels();
-      } catch (error: any) {
+      } catch (error) {
         setSnackbar({ 
           open: true, 
-          message: error.response?.data?.message || 'Delete failed', 
+          message: getErrorMessage(error, 'Delete failed'), 
           severity: 'error' 
         });
       }
@@ -207,13 +195,12 @@ const OperatorDashboard: React.FC = () => {
 
   const handleConfirmBooking = async (bookingId: number) => {
     try {
-      await api.post(`/bookings/${bookingId}/confirm`);
+      await bookingsService.confirm(bookingId);
       setSnackbar({ open: true, message: 'Booking confirmed', severity: 'success' });
-      fetchBookings();
-    } catch (error: any) {
+    } catch (error) {
       setSnackbar({ 
         open: true, 
-        message: error.response?.data?.message || 'Confirm failed', 
+        message: getErrorMessage(error, 'Confirm failed'), 
         severity: 'error' 
       });
     }
@@ -221,13 +208,12 @@ const OperatorDashboard: React.FC = () => {
 
   const handleCompleteBooking = async (bookingId: number) => {
     try {
-      await api.post(`/bookings/${bookingId}/complete`);
+      await bookingsService.complete(bookingId);
       setSnackbar({ open: true, message: 'Booking completed', severity: 'success' });
-      fetchBookings();
-    } catch (error: any) {
+    } catch (error) {
       setSnackbar({ 
         open: true, 
-        message: error.response?.data?.message || 'Complete failed', 
+        message: getErrorMessage(error, 'Complete failed'), 
         severity: 'error' 
       });
     }
@@ -241,19 +227,22 @@ const OperatorDashboard: React.FC = () => {
         <Tabs value={tabValue} onChange={handleTabChange}>
           <Tab label="Hotel Management" />
           <Tab label="Booking Management" />
+          {can('operator:invite') && <Tab label="Invitations" />}
         </Tabs>
       </Box>
 
       <TabPanel value={tabValue} index={0}>
         <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
           <Typography variant="h5">Hotel Management</Typography>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => handleOpenDialog()}
-          >
-            Add Hotel
-          </Button>
+          <Can permission="hotel:create">
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => handleOpenDialog()}
+            >
+              Add Hotel
+            </Button>
+          </Can>
         </Box>
 
         <Box sx={{ 
@@ -315,15 +304,15 @@ const OperatorDashboard: React.FC = () => {
                   ¥{hotel.price}
                 </Typography>
                 <Typography variant="body2">
-                  Available rooms: {hotel.availableRooms}
+                  {roomInventory(hotel)} rooms, {hotel.availableRooms} free tonight
                 </Typography>
                 <Box mt={2} display="flex" gap={1}>
                   <IconButton
                     size="small"
-                    color={user && hotel.operatorId === user.id ? 'primary' : 'default'}
-                    onClick={user && hotel.operatorId === user.id ? () => handleOpenDialog(hotel) : undefined}
-                    disabled={!(user && hotel.operatorId === user.id)}
-                    title={user && hotel.operatorId === user.id ? 'Edit Hotel' : 'You cannot edit this hotel'}
+                    color={canEditHotel(hotel) ? 'primary' : 'default'}
+                    onClick={canEditHotel(hotel) ? () => handleOpenDialog(hotel) : undefined}
+                    disabled={!canEditHotel(hotel)}
+                    title={canEditHotel(hotel) ? 'Edit Hotel' : 'You cannot edit this hotel'}
                   >
                     <EditIcon />
                   </IconButton>
@@ -331,8 +320,8 @@ const OperatorDashboard: React.FC = () => {
                     size="small"
                     color="error"
                     onClick={() => handleDeleteHotel(hotel.id)}
-                    disabled={!(user && hotel.operatorId === user.id)}
-                    title={user && hotel.operatorId === user.id ? 'Delete Hotel' : 'You cannot delete this hotel'}
+                    disabled={!canDeleteHotel(hotel)}
+                    title={canDeleteHotel(hotel) ? 'Delete Hotel' : 'You cannot delete this hotel'}
                   >
                     <DeleteIcon />
                   </IconButton>
@@ -341,6 +330,16 @@ const OperatorDashboard: React.FC = () => {
             </Card>
           ))}
         </Box>
+        {hotelPageCount > 1 && (
+          <Box display="flex" justifyContent="center" mt={3}>
+            <Pagination
+              count={hotelPageCount}
+              page={hotelPage}
+              onChange={(_, page) => setHotelPage(page)}
+              color="primary"
+            />
+          </Box>
+        )}
       </TabPanel>
 
       <TabPanel value={tabValue} index={1}>
@@ -422,7 +421,7 @@ const OperatorDashboard: React.FC = () => {
                       )}
                     </Box>
                     <Box display="flex" gap={1}>
-                      {booking.status === 'pending' && (
+                      {booking.status === 'pending' && can('booking:confirm') && (
                         <IconButton
                           color="success"
                           onClick={() => handleConfirmBooking(booking.id)}
@@ -431,7 +430,7 @@ const OperatorDashboard: React.FC = () => {
                           <CheckCircleIcon />
                         </IconButton>
                       )}
-                      {booking.status === 'confirmed' && (
+                      {booking.status === 'confirmed' && can('booking:complete') && (
                         <IconButton
                           color="primary"
                           onClick={() => handleCompleteBooking(booking.id)}
@@ -449,6 +448,12 @@ const OperatorDashboard: React.FC = () => {
         )}
       </TabPanel>
 
+      <Can permission="operator:invite">
+        <TabPanel value={tabValue} index={2}>
+          <InvitationManager />
+        </TabPanel>
+      </Can>
+
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>{editingHotel ? 'Edit Hotel' : 'Add Hotel'}</DialogTitle>
         <form onSubmit={formik.handleSubmit}>
@@ -473,6 +478,12 @@ const OperatorDashboard: React.FC = () => {
               error={formik.touched.address && Boolean(formik.errors.address)}
               helperText={formik.touched.address && formik.errors.address}
             />
+            <LocationPicker
+              address={formik.values.address}
+              value={hotelLocation}
+              onChange={handleLocationChange}
+              error={formik.errors.latitude}
+            />
             <TextField
               fullWidth
               margin="normal"
@@ -500,12 +511,12 @@ const OperatorDashboard: React.FC = () => {
               fullWidth
               margin="normal"
               name="availableRooms"
-              label="Available Rooms"
+              label="Total Rooms"
               type="number"
               value={formik.values.availableRooms}
               onChange={formik.handleChange}
               error={formik.touched.availableRooms && Boolean(formik.errors.availableRooms)}
-              helperText={formik.touched.availableRooms && formik.errors.availableRooms}
+              helperText={(formik.touched.availableRooms && formik.errors.availableRooms) || 'Bookings take rooms only for the nights they cover'}
             />
           </DialogContent>
           <DialogActions>
@@ -1,66 +1,146 @@
 import React, { useState, useEffect } from 'react';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { TextField, Button, Box, Typography, MenuItem, Alert } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
-import api from '../utils/api';
+import { TextField, Button, Box, Typography, Alert, CircularProgress } from '@mui/material';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import ResendVerificationButton from '../components/ResendVerificationButton';
+import { authService, invitationsService } from '../services';
+import { InvitationDetails } from '../types';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { ROLE_LABELS } from '../utils/permissions';
+import { confirmPasswordSchema, passwordSchema } from '../utils/validation';
+
+type InviteState = 'none' | 'checking' | 'valid' | 'invalid';
 
 const Register: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite') || '';
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState('');
-  const navigate = useNavigate();
-
-  useEffect(() => {
-    if (success) {
-      const timer = setTimeout(() => {
-        navigate('/login');
-      }, 1000);
-      
-      return () => clearTimeout(timer);
-    }
-  }, [success, navigate]);
+  const [registeredEmail, setRegisteredEmail] = useState('');
+  const [inviteState, setInviteState] = useState<InviteState>(inviteToken ? 'checking' : 'none');
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [inviteError, setInviteError] = useState('');
 
   const formik = useFormik({
     initialValues: {
       email: '',
       password: '',
       confirmPassword: '',
-      role: 'user',
-      registerCode: '',
     },
     validationSchema: Yup.object({
       email: Yup.string().email('Please enter a valid email').required('Please enter your email'),
-      password: Yup.string().min(6, 'Password must be at least 6 characters').required('Please enter your password'),
-      confirmPassword: Yup.string()
-        .oneOf([Yup.ref('password')], 'Passwords do not match')
-        .required('Please confirm your password'),
-      role: Yup.string().oneOf(['user', 'operator']).required('Please select a role'),
-      registerCode: Yup.string().when('role', (role: any, schema) =>
-        (role === 'operator' || (Array.isArray(role) && role[0] === 'operator'))
-          ? schema.required('Register code is required for operators')
-          : schema.notRequired()
-      ),
+      password: passwordSchema({ emailField: 'email' }).required('Please enter your password'),
+      confirmPassword: confirmPasswordSchema('password'),
     }),
     onSubmit: async (values) => {
       setError('');
-      setSuccess('');
       try {
-        await api.post('/auth/register', {
+        await authService.register({
           email: values.email,
           password: values.password,
-          role: values.role,
-          registerCode: values.role === 'operator' ? values.registerCode : '',
+          inviteToken: invitation ? inviteToken : undefined,
         });
-        setSuccess('Registration successful, please login');
-      } catch (err: any) {
-        setError(err.response?.data?.message || 'Registration failed');
+        setRegisteredEmail(values.email);
+      } catch (err) {
+        if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Registration failed'));
+        }
       }
     },
   });
 
+  const { setFieldValue } = formik;
+
+  useEffect(() => {
+    if (!inviteToken) {
+      setInviteState('none');
+      setInvitation(null);
+      return;
+    }
+    let active = true;
+    setInviteState('checking');
+    invitationsService.getByToken(inviteToken)
+      .then(details => {
+        if (!active) return;
+        setInvitation(details);
+        setInviteState('valid');
+        setFieldValue('email', details.email);
+      })
+      .catch(err => {
+        if (!active) return;
+        setInviteError(getErrorMessage(err, 'This invitation link is not valid'));
+        setInviteState('invalid');
+      });
+    return () => {
+      active = false;
+    };
+  }, [inviteToken, setFieldValue]);
+
+  if (registeredEmail && invitation) {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>Welcome aboard</Typography>
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your {ROLE_LABELS[invitation.role].toLowerCase()} account for {registeredEmail} is ready.
+        </Alert>
+        <Button color="primary" variant="contained" fullWidth component={RouterLink} to="/login">
+          Go to Login
+        </Button>
+      </Box>
+    );
+  }
+
+  if (registeredEmail) {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>Check Your Inbox</Typography>
+        <Alert severity="success" sx={{ mb: 2 }}>Registration successful</Alert>
+        <Typography paragraph>
+          We sent a verification link to <strong>{registeredEmail}</strong>. Open it to confirm your email address.
+          You can browse hotels in the meantime, but bookings are available once your email is verified.
+        </Typography>
+        <ResendVerificationButton email={registeredEmail} startWithCooldown />
+        <Button color="primary" variant="contained" fullWidth component={RouterLink} to="/login" sx={{ mt: 3 }}>
+          Go to Login
+        </Button>
+      </Box>
+    );
+  }
+
+  if (inviteState === 'checking') {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (inviteState === 'invalid') {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>Invitation Unavailable</Typography>
+        <Alert severity="error">{inviteError}</Alert>
+        <Typography color="text.secondary" mt={2}>
+          Ask the person who invited you to send a new invitation, or create a regular account instead.
+        </Typography>
+        <Button variant="contained" component={RouterLink} to="/register" sx={{ mt: 2 }}>
+          Register as a guest
+        </Button>
+      </Box>
+    );
+  }
+
   return (
     <Box maxWidth={400} mx="auto" mt={4}>
       <Typography variant="h5" mb={2}>Register</Typography>
+      {invitation && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          You have been invited to join as {ROLE_LABELS[invitation.role].toLowerCase()}. The invitation
+          expires on {new Date(invitation.expiresAt).toLocaleDateString()}.
+        </Alert>
+      )}
       <form onSubmit={formik.handleSubmit}>
         <TextField
           fullWidth
@@ -69,6 +149,7 @@ const Register: React.FC = () => {
           name="email"
           label="Email"
           value={formik.values.email}
+          InputProps={{ readOnly: Boolean(invitation) }}
           onChange={formik.handleChange}
           error={formik.touched.email && Boolean(formik.errors.email)}
           helperText={formik.touched.email && formik.errors.email}
@@ -85,6 +166,7 @@ const Register: React.FC = () => {
           error={formik.touched.password && Boolean(formik.errors.password)}
           helperText={formik.touched.password && formik.errors.password}
         />
+        <PasswordStrengthMeter password={formik.values.password} email={formik.values.email} />
         <TextField
           fullWidth
           margin="normal"
@@ -97,34 +179,7 @@ const Register: React.FC = () => {
           error={formik.touched.confirmPassword && Boolean(formik.errors.confirmPassword)}
           helperText={formik.touched.confirmPassword && formik.errors.confirmPassword}
         />
-        <TextField
-          select
-          fullWidth
-          margin="normal"
-          id="role"
-          name="role"
-          label="Role"
-          value={formik.values.role}
-          onChange={formik.handleChange}
-        >
-          <MenuItem value="user">User</MenuItem>
-          <MenuItem value="operator">Operator</MenuItem>
-        </TextField>
-        {formik.values.role === 'operator' && (
-          <TextField
-            fullWidth
-            margin="normal"
-            id="registerCode"
-            name="registerCode"
-            label="Operator Register Code"
-            value={formik.values.registerCode}
-            onChange={formik.handleChange}
-            error={formik.touched.registerCode && Boolean(formik.errors.registerCode)}
-            helperText={formik.touched.registerCode && formik.errors.registerCode}
-          />
-        )}
         {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
-        {success && <Alert severity="success" sx={{ mt: 2 }}>{success}</Alert>}
         <Button color="primary" variant="contained" fullWidth type="submit" sx={{ mt: 2 }}>
           Register
         </Button>
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { useFormik } from 'formik';
+import * as Yup from 'yup';
+import { TextField, Button, Box, Typography, Alert } from '@mui/material';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { authService } from '../services';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { confirmPasswordSchema, passwordSchema } from '../utils/validation';
+
+type TokenState = 'checking' | 'valid' | 'expired' | 'used' | 'invalid';
+
+const TOKEN_ERRORS: Record<Exclude<TokenState, 'checking' | 'valid'>, string> = {
+  expired: 'This password reset link has expired. Please request a new one.',
+  used: 'This password reset link has already been used. Please request a new one if you still need to reset your password.',
+  invalid: 'This password reset link is not valid. Please request a new one.',
+};
+
+const tokenStateFromError = (error: unknown): TokenState | null => {
+  const { code, status } = toApiError(error);
+  if (code === 'RESET_TOKEN_EXPIRED') return 'expired';
+  if (code === 'RESET_TOKEN_USED') return 'used';
+  if (code === 'RESET_TOKEN_INVALID' || status === 404) return 'invalid';
+  return null;
+};
+
+const ResetPassword: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [tokenState, setTokenState] = useState<TokenState>('checking');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    setTokenState('checking');
+    authService.verifyResetToken(token)
+      .then(info => {
+        if (!active) return;
+        setEmail(info.email);
+        setTokenState('valid');
+      })
+      .catch(err => {
+        if (!active) return;
+        const state = tokenStateFromError(err);
+        if (state) {
+          setTokenState(state);
+        } else {
+          setTokenState('valid');
+          setError(getErrorMessage(err, 'Failed to verify the reset link'));
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => {
+        navigate('/login');
+      }, 1000);
+
+      return () => clearTimeout(timer);
+    }
+  }, [success, navigate]);
+
+  const formik = useFormik({
+    initialValues: {
+      password: '',
+      confirmPassword: '',
+    },
+    validationSchema: Yup.object({
+      password: passwordSchema({ email }).required('Please enter a new password'),
+      confirmPassword: confirmPasswordSchema('password'),
+    }),
+    onSubmit: async (values) => {
+      setError('');
+      try {
+        await authService.resetPassword({ token, password: values.password });
+        setSuccess('Password reset successful, please login');
+      } catch (err) {
+        const state = tokenStateFromError(err);
+        if (state) {
+          setTokenState(state);
+        } else if (!applyFieldErrors(formik, err)) {
+          setError(getErrorMessage(err, 'Password reset failed'));
+        }
+      }
+    },
+  });
+
+  if (tokenState === 'checking') {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+        <Typography>Loading...</Typography>
+      </Box>
+    );
+  }
+
+  if (tokenState !== 'valid') {
+    return (
+      <Box maxWidth={400} mx="auto" mt={4}>
+        <Typography variant="h5" mb={2}>Reset Password</Typography>
+        <Alert severity="error">{TOKEN_ERRORS[tokenState]}</Alert>
+        <Button variant="contained" component={RouterLink} to="/forgot-password" sx={{ mt: 2 }}>
+          Request a New Link
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box maxWidth={400} mx="auto" mt={4}>
+      <Typography variant="h5" mb={2}>Reset Password</Typography>
+      {email && (
+        <Typography color="text.secondary">
+          Choose a new password for {email}.
+        </Typography>
+      )}
+      <form onSubmit={formik.handleSubmit}>
+        <TextField
+          fullWidth
+          margin="normal"
+          id="password"
+          name="password"
+          label="New Password"
+          type="password"
+          value={formik.values.password}
+          onChange={formik.handleChange}
+          error={formik.touched.password && Boolean(formik.errors.password)}
+          helperText={formik.touched.password && formik.errors.password}
+        />
+        <PasswordStrengthMeter password={formik.values.password} email={email} />
+        <TextField
+          fullWidth
+          margin="normal"
+          id="confirmPassword"
+          name="confirmPassword"
+          label="Confirm New Password"
+          type="password"
+          value={formik.values.confirmPassword}
+          onChange={formik.handleChange}
+          error={formik.touched.confirmPassword && Boolean(formik.errors.confirmPassword)}
+          helperText={formik.touched.confirmPassword && formik.errors.confirmPassword}
+        />
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+        {success && <Alert severity="success" sx={{ mt: 2 }}>{success}</Alert>}
+        <Button
+          color="primary"
+          variant="contained"
+          fullWidth
+          type="submit"
+          disabled={formik.isSubmitting || Boolean(success)}
+          sx={{ mt: 2 }}
+        >
+          Reset Password
+        </Button>
+      </form>
+    </Box>
+  );
+};
+
+export default ResetPassword;
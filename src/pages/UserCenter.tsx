@@ -25,8 +25,20 @@ import {
 import { Edit as EditIcon, Delete as DeleteIcon, Favorite as FavoriteIcon } from '@mui/icons-material';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
+import AccountDataExport from '../components/AccountDataExport';
+import ActiveSessions from '../components/ActiveSessions';
+import DeleteAccount from '../components/DeleteAccount';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import TwoFactorSettings from '../components/TwoFactorSettings';
 import { useAuth } from '../contexts/AuthContext';
-import api from '../utils/api';
+import { useQuery } from '../hooks/useQuery';
+import { authService, bookingsService, favoritesService, profileService, queryKeys } from '../services';
+import { Booking, Hotel, User } from '../types';
+import { setQueryData } from '../utils/queryCache';
+import { getErrorMessage } from '../utils/apiError';
+import { applyFieldErrors } from '../utils/formErrors';
+import { ROLE_LABELS } from '../utils/permissions';
+import { passwordSchema } from '../utils/validation';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -54,50 +66,38 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
-interface FavoriteHotel {
-  id: number;
-  name: string;
-  address: string;
-  price: number;
-  availableRooms: number;
-}
-
-interface Booking {
-  id: number;
-  hotelName: string;
-  hotelAddress: string;
-  checkInDate: string;
-  checkOutDate: string;
-  guestCount: number;
-  totalPrice: number;
-  status: string;
-  specialRequests?: string;
-  createdAt: string;
-}
+const profileValues = (user: User | null) => ({
+  displayName: user?.displayName || '',
+  phone: user?.phone || '',
+  email: user?.email || '',
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+});
 
 const UserCenter: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, updateUser, can } = useAuth();
+  const canFavorite = can('favorite:manage');
   const [tabValue, setTabValue] = useState(0);
   const [openProfileDialog, setOpenProfileDialog] = useState(false);
-  const [favorites, setFavorites] = useState<FavoriteHotel[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [loading, setLoading] = useState(false);
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+  const favoritesResult = useQuery(queryKeys.favorites, favoritesService.list, { enabled: tabValue === 1 && canFavorite });
+  const bookingsResult = useQuery(queryKeys.myBookings, bookingsService.listMine, { enabled: tabValue === 2 });
+  const profileResult = useQuery(queryKeys.profile, profileService.get, { enabled: Boolean(user) });
+  const favorites = favoritesResult.data ?? [];
+  const bookings = bookingsResult.data ?? [];
 
   const profileFormik = useFormik({
-    initialValues: {
-      email: user?.email || '',
-      currentPassword: '',
-      newPassword: '',
-      confirmPassword: '',
-    },
+    initialValues: profileValues(user),
     validationSchema: Yup.object({
+      displayName: Yup.string().trim().max(50, 'Display name must be at most 50 characters'),
+      phone: Yup.string().trim().matches(/^\+?[0-9\s()-]{6,20}$/, 'Please enter a valid phone number'),
       email: Yup.string().email('Please enter a valid email').required('Please enter your email'),
-      currentPassword: Yup.string().when('newPassword', {
-        is: (val: string) => val && val.length > 0,
+      currentPassword: Yup.string().when(['newPassword', 'email'], {
+        is: (newPassword: string, email: string) => Boolean(newPassword) || email !== user?.email,
         then: (schema) => schema.required('Please enter your current password'),
       }),
-      newPassword: Yup.string().min(6, 'Password must be at least 6 characters'),
+      newPassword: passwordSchema({ emailField: 'email' }),
       confirmPassword: Yup.string().when('newPassword', {
         is: (val: string) => val && val.length > 0,
         then: (schema) => schema
@@ -106,69 +106,85 @@ const UserCenter: React.FC = () => {
       }),
     }),
     onSubmit: async (values) => {
+      const displayName = values.displayName.trim();
+      const phone = values.phone.trim();
+      const email = values.email.trim();
+      const emailChanged = email !== user?.email;
+      const profileChanged = emailChanged
+        || displayName !== (user?.displayName || '')
+        || phone !== (user?.phone || '');
+
+      if (!profileChanged && !values.newPassword) {
+        setOpenProfileDialog(false);
+        return;
+      }
+
       try {
+        if (profileChanged) {
+          const updatedUser = await profileService.update({
+            displayName,
+            phone,
+            email,
+            currentPassword: emailChanged ? values.currentPassword : undefined,
+          });
+          updateUser(updatedUser);
+          setQueryData(queryKeys.profile, updatedUser);
+        }
         if (values.newPassword) {
-          await api.post('/auth/change-password', {
+          await authService.changePassword({
             currentPassword: values.currentPassword,
             newPassword: values.newPassword,
           });
-          setSnackbar({ open: true, message: 'Password changed successfully', severity: 'success' });
-        } else {
-          setSnackbar({ open: true, message: 'Profile updated successfully', severity: 'success' });
         }
+        const message = emailChanged
+          ? `Profile updated. We sent a verification link to ${email}`
+          : profileChanged ? 'Profile updated successfully' : 'Password changed successfully';
+        setSnackbar({ open: true, message, severity: 'success' });
         setOpenProfileDialog(false);
-        profileFormik.resetForm();
-      } catch (error: any) {
-        setSnackbar({ 
-          open: true, 
-          message: error.response?.data?.message || 'Update failed', 
-          severity: 'error' 
-        });
+      } catch (error) {
+        if (!applyFieldErrors(profileFormik, error)) {
+          setSnackbar({ 
+            open: true, 
+            message: getErrorMessage(error, 'Update failed'), 
+            severity: 'error' 
+          });
+        }
       }
     },
   });
 
-  const fetchFavorites = async () => {
-    setLoading(true);
-    try {
-      const response = await api.get('/favorites');
-      setFavorites(response.data);
-    } catch (error) {
-      console.error('Fail to get fav list:', error);
+  useEffect(() => {
+    if (profileResult.data) {
+      updateUser(profileResult.data);
+    }
+  }, [profileResult.data, updateUser]);
+
+  useEffect(() => {
+    if (favoritesResult.error) {
+      console.error('Fail to get fav list:', favoritesResult.error);
       setSnackbar({ 
         open: true, 
         message: 'Failed to fetch favorites', 
         severity: 'error' 
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [favoritesResult.error]);
 
-  const fetchBookings = async () => {
-    setLoading(true);
-    try {
-      const response = await api.get('/bookings');
-      setBookings(response.data);
-    } catch (error) {
-      console.error('Fail to get booking record:', error);
+  useEffect(() => {
+    if (bookingsResult.error) {
+      console.error('Fail to get booking record:', bookingsResult.error);
       setSnackbar({ 
         open: true, 
         message: 'Failed to fetch bookings', 
         severity: 'error' 
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [bookingsResult.error]);
 
-  useEffect(() => {
-    if (tabValue === 1) {
-      fetchFavorites();
-    } else if (tabValue === 2) {
-      fetchBookings();
-    }
-  }, [tabValue]);
+  const handleOpenProfileDialog = () => {
+    profileFormik.resetForm({ values: profileValues(user) });
+    setOpenProfileDialog(true);
+  };
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -176,13 +192,13 @@ const UserCenter: React.FC = () => {
 
   const handleRemoveFavorite = async (hotelId: number) => {
     try {
-      await api.delete(`/favorites/${hotelId}`);
-      setFavorites(favorites.filter(hotel => hotel.id !== hotelId));
+      await favoritesService.remove(hotelId);
+      setQueryData<Hotel[]>(queryKeys.favorites, previous => (previous ?? []).filter(hotel => hotel.id !== hotelId));
       setSnackbar({ open: true, message: 'Removed from favorites', severity: 'success' });
-    } catch (error: any) {
+    } catch (error) {
       setSnackbar({ 
         open: true, 
-        message: error.response?.data?.message || 'Remove failed', 
+        message: getErrorMessage(error, 'Remove failed'), 
         severity: 'error' 
       });
     }
@@ -190,17 +206,17 @@ const UserCenter: React.FC = () => {
 
   const handleCancelBooking = async (bookingId: number) => {
     try {
-      await api.post(`/bookings/${bookingId}/cancel`);
-      setBookings(bookings.map(booking => 
+      await bookingsService.cancel(bookingId);
+      setQueryData<Booking[]>(queryKeys.myBookings, previous => (previous ?? []).map(booking => 
         booking.id === bookingId 
           ? { ...booking, status: 'cancelled' }
           : booking
       ));
       setSnackbar({ open: true, message: 'Booking cancelled', severity: 'success' });
-    } catch (error: any) {
+    } catch (error) {
       setSnackbar({ 
         open: true, 
-        message: error.response?.data?.message || 'Cancel failed', 
+        message: getErrorMessage(error, 'Cancel failed'), 
         severity: 'error' 
       });
     }
@@ -223,8 +239,9 @@ const UserCenter: React.FC = () => {
       <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
         <Tabs value={tabValue} onChange={handleTabChange}>
           <Tab label="Profile" />
-          <Tab label="My Favorites" />
+          <Tab label="My Favorites" disabled={!canFavorite} />
           <Tab label="Booking Records" />
+          <Tab label="Security" />
         </Tabs>
       </Box>
 
@@ -233,18 +250,27 @@ const UserCenter: React.FC = () => {
           <CardContent>
             <Box display="flex" alignItems="center" mb={3}>
               <Avatar sx={{ width: 80, height: 80, mr: 2 }}>
-                {user.email.charAt(0).toUpperCase()}
+                {(user.displayName || user.email).charAt(0).toUpperCase()}
               </Avatar>
               <Box>
-                <Typography variant="h6">{user.email}</Typography>
+                <Typography variant="h6">{user.displayName || user.email}</Typography>
+                <Box display="flex" alignItems="center" gap={1}>
+                  <Typography color="text.secondary">{user.email}</Typography>
+                  {user.emailVerified === false && (
+                    <Chip label="Unverified" color="warning" size="small" />
+                  )}
+                </Box>
+                {user.phone && (
+                  <Typography color="text.secondary">{user.phone}</Typography>
+                )}
                 <Typography color="text.secondary">
-                  Role: {user.role === 'operator' ? 'Operator' : 'User'}
+                  Role: {ROLE_LABELS[user.role]}
                 </Typography>
               </Box>
               <Button
                 variant="outlined"
                 startIcon={<EditIcon />}
-                onClick={() => setOpenProfileDialog(true)}
+                onClick={handleOpenProfileDialog}
                 sx={{ ml: 'auto' }}
               >
                 Edit Profile
@@ -252,13 +278,15 @@ const UserCenter: React.FC = () => {
             </Box>
           </CardContent>
         </Card>
+        <AccountDataExport />
+        <DeleteAccount />
       </TabPanel>
 
       <TabPanel value={tabValue} index={1}>
         <Typography variant="h6" gutterBottom>
           My Favorites ({favorites.length})
         </Typography>
-        {loading ? (
+        {favoritesResult.isLoading ? (
           <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
             <Typography>Loading...</Typography>
           </Box>
@@ -318,7 +346,7 @@ const UserCenter: React.FC = () => {
         <Typography variant="h6" gutterBottom>
           Booking Records ({bookings.length})
         </Typography>
-        {loading ? (
+        {bookingsResult.isLoading ? (
           <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
             <Typography>Loading...</Typography>
           </Box>
@@ -410,10 +438,35 @@ const UserCenter: React.FC = () => {
         )}
       </TabPanel>
 
+      <TabPanel value={tabValue} index={3}>
+        <TwoFactorSettings />
+        <ActiveSessions />
+      </TabPanel>
+
       <Dialog open={openProfileDialog} onClose={() => setOpenProfileDialog(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Edit Profile</DialogTitle>
         <form onSubmit={profileFormik.handleSubmit}>
           <DialogContent>
+            <TextField
+              fullWidth
+              margin="normal"
+              name="displayName"
+              label="Display Name"
+              value={profileFormik.values.displayName}
+              onChange={profileFormik.handleChange}
+              error={profileFormik.touched.displayName && Boolean(profileFormik.errors.displayName)}
+              helperText={profileFormik.touched.displayName && profileFormik.errors.displayName}
+            />
+            <TextField
+              fullWidth
+              margin="normal"
+              name="phone"
+              label="Phone"
+              value={profileFormik.values.phone}
+              onChange={profileFormik.handleChange}
+              error={profileFormik.touched.phone && Boolean(profileFormik.errors.phone)}
+              helperText={profileFormik.touched.phone && profileFormik.errors.phone}
+            />
             <TextField
               fullWidth
               margin="normal"
@@ -422,7 +475,12 @@ const UserCenter: React.FC = () => {
               value={profileFormik.values.email}
               onChange={profileFormik.handleChange}
               error={profileFormik.touched.email && Boolean(profileFormik.errors.email)}
-              helperText={profileFormik.touched.email && profileFormik.errors.email}
+              helperText={
+                (profileFormik.touched.email && profileFormik.errors.email)
+                || (profileFormik.values.email.trim() !== user.email
+                  ? 'Changing your email requires your current password and a new verification'
+                  : undefined)
+              }
             />
             <TextField
               fullWidth
@@ -446,6 +504,7 @@ const UserCenter: React.FC = () => {
               error={profileFormik.touched.newPassword && Boolean(profileFormik.errors.newPassword)}
               helperText={profileFormik.touched.newPassword && profileFormik.errors.newPassword}
             />
+            <PasswordStrengthMeter password={profileFormik.values.newPassword} email={profileFormik.values.email} />
             <TextField
               fullWidth
               margin="normal"
@@ -460,7 +519,7 @@ const UserCenter: React.FC = () => {
           </DialogContent>
           <DialogActions>
             <Button onClick={() => setOpenProfileDialog(false)}>Cancel</Button>
-            <Button type="submit" variant="contained">
+            <Button type="submit" variant="contained" disabled={profileFormik.isSubmitting}>
               Save
             </Button>
           </DialogActions>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { AuthProvider } from '../contexts/AuthContext';
+import { enableMockApi, resetMockDb } from '../mocks';
+import { getDb, saveDb } from '../mocks/db';
+import VerifyEmail from './VerifyEmail';
+
+const renderVerifyEmail = (token: string) =>
+  render(
+    <MemoryRouter initialEntries={[`/verify-email/${token}`]}>
+      <AuthProvider>
+        <Routes>
+          <Route path="/verify-email/:token" element={<VerifyEmail />} />
+        </Routes>
+      </AuthProvider>
+    </MemoryRouter>
+  );
+
+beforeAll(() => {
+  jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  enableMockApi();
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  resetMockDb();
+  const db = getDb();
+  db.users.push({ id: 50, email: 'new@example.com', password: 'Passw0rd!x', role: 'user', emailVerified: false });
+  db.emailVerifications.push({ token: 'link-token', userId: 50, expiresAt: Date.now() + 60000, used: false });
+  saveDb();
+});
+
+test('marks the signed-in user verified when the link opens in a new tab', async () => {
+  localStorage.setItem('user', JSON.stringify({ id: 50, email: 'new@example.com', role: 'user', emailVerified: false }));
+  localStorage.setItem('token', 'access-token');
+
+  renderVerifyEmail('link-token');
+
+  expect(await screen.findByRole('link', { name: 'Continue Browsing' })).toBeInTheDocument();
+  await waitFor(() => expect(JSON.parse(localStorage.getItem('user') || '{}').emailVerified).toBe(true));
+});
+
+test('leaves another signed-in account untouched', async () => {
+  localStorage.setItem('user', JSON.stringify({ id: 2, email: 'user@example.com', role: 'user', emailVerified: false }));
+  localStorage.setItem('token', 'access-token');
+
+  renderVerifyEmail('link-token');
+
+  expect(await screen.findByText('Email verified')).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem('user') || '{}').emailVerified).toBe(false);
+});
+
+test('explains an unknown link', async () => {
+  renderVerifyEmail('missing');
+
+  expect(await screen.findByText('This verification link is not valid.')).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Go to Login' })).toBeInTheDocument();
+});
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Typography, Alert } from '@mui/material';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import ResendVerificationButton from '../components/ResendVerificationButton';
+import { authService } from '../services';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+
+type VerifyState = 'verifying' | 'verified' | 'expired' | 'used' | 'invalid' | 'failed';
+
+const VERIFY_ERRORS: Record<Exclude<VerifyState, 'verifying' | 'verified'>, string> = {
+  expired: 'This verification link has expired, please request a new one.',
+  used: 'This verification link has already been used. Your email may already be verified.',
+  invalid: 'This verification link is not valid.',
+  failed: 'We could not verify your email, please try again later.',
+};
+
+const VerifyEmail: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { user, loading, updateUser } = useAuth();
+  const [state, setState] = useState<VerifyState>('verifying');
+  const [message, setMessage] = useState('');
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null);
+  const verifiedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (verifiedToken.current === token) return;
+    verifiedToken.current = token;
+
+    setState('verifying');
+    authService.verifyEmail(token)
+      .then(response => {
+        setMessage(response.message || `${response.email} has been verified`);
+        setVerifiedEmail(response.email);
+        setState('verified');
+      })
+      .catch(error => {
+        const { code, status } = toApiError(error);
+        if (code === 'VERIFY_TOKEN_EXPIRED') {
+          setState('expired');
+        } else if (code === 'VERIFY_TOKEN_USED') {
+          setState('used');
+        } else if (code === 'VERIFY_TOKEN_INVALID' || status === 404) {
+          setState('invalid');
+        } else {
+          setMessage(getErrorMessage(error, VERIFY_ERRORS.failed));
+          setState('failed');
+        }
+      });
+  }, [token]);
+
+  // The link is often opened in a fresh tab, where the stored session is only restored after the first render.
+  useEffect(() => {
+    if (loading || !user || !verifiedEmail) return;
+    if (user.email === verifiedEmail && user.emailVerified === false) {
+      updateUser({ ...user, emailVerified: true });
+    }
+  }, [loading, user, verifiedEmail, updateUser]);
+
+  if (state === 'verifying') {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+        <Typography>Verifying your email...</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box maxWidth={480} mx="auto" mt={4}>
+      <Typography variant="h5" mb={2}>Email Verification</Typography>
+      {state === 'verified' ? (
+        <>
+          <Alert severity="success">{message}</Alert>
+          <Button variant="contained" component={RouterLink} to={user ? '/' : '/login'} sx={{ mt: 2 }}>
+            {user ? 'Continue Browsing' : 'Go to Login'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Alert severity="error">{state === 'failed' ? message : VERIFY_ERRORS[state]}</Alert>
+          {user && user.emailVerified === false && (
+            <Box mt={2}>
+              <ResendVerificationButton email={user.email} />
+            </Box>
+          )}
+          {!user && (
+            <Button variant="contained" component={RouterLink} to="/login" sx={{ mt: 2 }}>
+              Go to Login
+            </Button>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,16 @@
+import api from '../utils/api';
+import { AccountExport } from '../types';
+import { accountExportSchema, messageSchema } from './schemas';
+import { parseResponse } from './validate';
+
+export const accountService = {
+  exportData: async (): Promise<AccountExport> => {
+    const response = await api.get('/account/export');
+    return parseResponse(accountExportSchema, response.data, 'GET /account/export');
+  },
+
+  remove: async (password: string) => {
+    const response = await api.delete('/account', { data: { password } });
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /account');
+  },
+};
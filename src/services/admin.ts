@@ -0,0 +1,27 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { AdminUser, AdminUserQuery, AdminUserUpdate } from '../types';
+import { adminUserListSchema, adminUserSchema, messageSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const adminService = {
+  listUsers: async (query: AdminUserQuery = {}): Promise<AdminUser[]> => {
+    const params = query.search ? { search: query.search } : {};
+    const response = await api.get('/admin/users', { params });
+    return parseResponse(adminUserListSchema, response.data, 'GET /admin/users');
+  },
+
+  updateUser: async (id: number, input: AdminUserUpdate): Promise<AdminUser> => {
+    const response = await api.patch(`/admin/users/${id}`, input);
+    invalidateQueries(queryKeys.admin);
+    return parseResponse(adminUserSchema, response.data, 'PATCH /admin/users/:id');
+  },
+
+  transferHotel: async (hotelId: number, operatorId: number) => {
+    const response = await api.post(`/admin/hotels/${hotelId}/transfer`, { operatorId });
+    invalidateQueries(queryKeys.admin);
+    invalidateQueries(queryKeys.hotels);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /admin/hotels/:id/transfer');
+  },
+};
@@ -0,0 +1,55 @@
+import api from '../utils/api';
+import { ChangePasswordInput, LoginCredentials, LoginResult, RegisterInput, ResetPasswordInput } from '../types';
+import {
+  loginResponseSchema,
+  messageSchema,
+  resetTokenInfoSchema,
+  twoFactorChallengeSchema,
+  verifyEmailResponseSchema,
+} from './schemas';
+import { parseResponse } from './validate';
+
+export const authService = {
+  login: async (credentials: LoginCredentials): Promise<LoginResult> => {
+    const response = await api.post('/auth/login', credentials);
+    if (response.data?.twoFactorRequired) {
+      return parseResponse(twoFactorChallengeSchema, response.data, 'POST /auth/login');
+    }
+    return parseResponse(loginResponseSchema, response.data, 'POST /auth/login');
+  },
+
+  register: async (input: RegisterInput) => {
+    const response = await api.post('/auth/register', input);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/register');
+  },
+
+  verifyEmail: async (token: string) => {
+    const response = await api.post('/auth/verify-email', { token });
+    return parseResponse(verifyEmailResponseSchema, response.data, 'POST /auth/verify-email');
+  },
+
+  resendVerification: async (email: string) => {
+    const response = await api.post('/auth/resend-verification', { email });
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/resend-verification');
+  },
+
+  requestPasswordReset: async (email: string) => {
+    const response = await api.post('/auth/forgot-password', { email });
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/forgot-password');
+  },
+
+  verifyResetToken: async (token: string) => {
+    const response = await api.get(`/auth/reset-password/${encodeURIComponent(token)}`);
+    return parseResponse(resetTokenInfoSchema, response.data, 'GET /auth/reset-password/:token');
+  },
+
+  resetPassword: async (input: ResetPasswordInput) => {
+    const response = await api.post('/auth/reset-password', input);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/reset-password');
+  },
+
+  changePassword: async (input: ChangePasswordInput) => {
+    const response = await api.post('/auth/change-password', input);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/change-password');
+  },
+};
@@ -0,0 +1,44 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { Booking, BookingInput } from '../types';
+import { bookingListSchema, messageSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const bookingsService = {
+  listMine: async (): Promise<Booking[]> => {
+    const response = await api.get('/bookings');
+    return parseResponse(bookingListSchema, response.data, 'GET /bookings');
+  },
+
+  listForOperator: async (): Promise<Booking[]> => {
+    const response = await api.get('/bookings/operator');
+    return parseResponse(bookingListSchema, response.data, 'GET /bookings/operator');
+  },
+
+  create: async (input: BookingInput) => {
+    const response = await api.post('/bookings', input);
+    invalidateQueries(queryKeys.bookings);
+    invalidateQueries(queryKeys.hotels);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /bookings');
+  },
+
+  confirm: async (id: number) => {
+    const response = await api.post(`/bookings/${id}/confirm`);
+    invalidateQueries(queryKeys.bookings);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /bookings/:id/confirm');
+  },
+
+  complete: async (id: number) => {
+    const response = await api.post(`/bookings/${id}/complete`);
+    invalidateQueries(queryKeys.bookings);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /bookings/:id/complete');
+  },
+
+  cancel: async (id: number) => {
+    const response = await api.post(`/bookings/${id}/cancel`);
+    invalidateQueries(queryKeys.bookings);
+    invalidateQueries(queryKeys.hotels);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /bookings/:id/cancel');
+  },
+};
@@ -0,0 +1,25 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { Hotel } from '../types';
+import { hotelListSchema, messageSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const favoritesService = {
+  list: async (): Promise<Hotel[]> => {
+    const response = await api.get('/favorites');
+    return parseResponse(hotelListSchema, response.data, 'GET /favorites');
+  },
+
+  add: async (hotelId: number) => {
+    const response = await api.post('/favorites', { hotelId });
+    invalidateQueries(queryKeys.favorites);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /favorites');
+  },
+
+  remove: async (hotelId: number) => {
+    const response = await api.delete(`/favorites/${hotelId}`);
+    invalidateQueries(queryKeys.favorites);
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /favorites/:id');
+  },
+};
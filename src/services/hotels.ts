@@ -0,0 +1,48 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { Hotel, HotelInput, HotelQuery, HotelSuggestions, Page, StayQuery } from '../types';
+import { toHotelParams } from '../utils/hotelSearch';
+import { hotelListSchema, hotelPageSchema, hotelSchema, hotelSuggestionsSchema, messageSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const hotelsService = {
+  list: async (query: HotelQuery = {}): Promise<Hotel[]> => {
+    const response = await api.get('/hotels', { params: toHotelParams(query) });
+    return parseResponse(hotelListSchema, response.data, 'GET /hotels');
+  },
+
+  listPage: async (query: HotelQuery = {}, page = 1, pageSize = 12): Promise<Page<Hotel>> => {
+    const response = await api.get('/hotels', { params: { ...toHotelParams(query), page, pageSize } });
+    return parseResponse(hotelPageSchema, response.data, 'GET /hotels?page');
+  },
+
+  suggest: async (query: string, signal?: AbortSignal): Promise<HotelSuggestions> => {
+    const response = await api.get('/hotels/suggestions', { params: { q: query }, signal });
+    return parseResponse(hotelSuggestionsSchema, response.data, 'GET /hotels/suggestions');
+  },
+
+  get: async (id: number | string, stay: StayQuery = {}): Promise<Hotel> => {
+    const response = await api.get(`/hotels/${id}`, { params: toHotelParams(stay) });
+    return parseResponse(hotelSchema, response.data, 'GET /hotels/:id');
+  },
+
+  create: async (input: HotelInput) => {
+    const response = await api.post('/hotels', input);
+    invalidateQueries(queryKeys.hotels);
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /hotels');
+  },
+
+  update: async (id: number, input: HotelInput) => {
+    const response = await api.put(`/hotels/${id}`, input);
+    invalidateQueries(queryKeys.hotels);
+    return parseResponse(messageSchema, response.data ?? {}, 'PUT /hotels/:id');
+  },
+
+  remove: async (id: number) => {
+    const response = await api.delete(`/hotels/${id}`);
+    invalidateQueries(queryKeys.hotels);
+    invalidateQueries(queryKeys.favorites);
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /hotels/:id');
+  },
+};
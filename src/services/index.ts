@@ -0,0 +1,12 @@
+export { accountService } from './account';
+export { adminService } from './admin';
+export { authService } from './auth';
+export { bookingsService } from './bookings';
+export { favoritesService } from './favorites';
+export { hotelsService } from './hotels';
+export { invitationsService } from './invitations';
+export { profileService } from './profile';
+export { queryKeys } from './queryKeys';
+export { sessionsService } from './sessions';
+export { twoFactorService } from './twoFactor';
+export { ResponseValidationError } from './validate';
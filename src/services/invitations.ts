@@ -0,0 +1,30 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { Invitation, InvitationDetails, InvitationInput } from '../types';
+import { invitationDetailsSchema, invitationListSchema, invitationSchema, messageSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const invitationsService = {
+  list: async (): Promise<Invitation[]> => {
+    const response = await api.get('/invitations');
+    return parseResponse(invitationListSchema, response.data, 'GET /invitations');
+  },
+
+  create: async (input: InvitationInput): Promise<Invitation> => {
+    const response = await api.post('/invitations', input);
+    invalidateQueries(queryKeys.invitations);
+    return parseResponse(invitationSchema, response.data, 'POST /invitations');
+  },
+
+  revoke: async (id: number) => {
+    const response = await api.delete(`/invitations/${id}`);
+    invalidateQueries(queryKeys.invitations);
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /invitations/:id');
+  },
+
+  getByToken: async (token: string): Promise<InvitationDetails> => {
+    const response = await api.get(`/invitations/${encodeURIComponent(token)}`);
+    return parseResponse(invitationDetailsSchema, response.data, 'GET /invitations/:token');
+  },
+};
@@ -0,0 +1,16 @@
+import api from '../utils/api';
+import { ProfileInput, User } from '../types';
+import { userSchema } from './schemas';
+import { parseResponse } from './validate';
+
+export const profileService = {
+  get: async (): Promise<User> => {
+    const response = await api.get('/profile');
+    return parseResponse(userSchema, response.data, 'GET /profile');
+  },
+
+  update: async (input: ProfileInput): Promise<User> => {
+    const response = await api.patch('/profile', input);
+    return parseResponse(userSchema, response.data, 'PATCH /profile');
+  },
+};
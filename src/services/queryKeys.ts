@@ -0,0 +1,18 @@
+import { AdminUserQuery, HotelQuery, StayQuery } from '../types';
+
+export const queryKeys = {
+  hotels: ['hotels'] as const,
+  hotelList: (query: HotelQuery = {}) => ['hotels', 'list', query] as const,
+  hotelPage: (query: HotelQuery, page: number) => ['hotels', 'page', query, page] as const,
+  hotelPages: (query: HotelQuery = {}) => ['hotels', 'pages', query] as const,
+  hotel: (id: number | string, stay: StayQuery = {}) => ['hotels', 'detail', String(id), stay] as const,
+  profile: ['profile'] as const,
+  sessions: ['sessions'] as const,
+  favorites: ['favorites'] as const,
+  bookings: ['bookings'] as const,
+  myBookings: ['bookings', 'mine'] as const,
+  operatorBookings: ['bookings', 'operator'] as const,
+  invitations: ['invitations'] as const,
+  admin: ['admin'] as const,
+  adminUsers: (query: AdminUserQuery = {}) => ['admin', 'users', query] as const,
+};
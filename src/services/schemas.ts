@@ -0,0 +1,201 @@
+import * as Yup from 'yup';
+import {
+  AccountExport,
+  AdminUser,
+  BackupCodesResponse,
+  Booking,
+  BookingStatus,
+  CaptchaChallenge,
+  Hotel,
+  HotelStay,
+  NightAvailability,
+  HotelSuggestions,
+  Invitation,
+  InvitationDetails,
+  InvitationStatus,
+  LoginResponse,
+  MessageResponse,
+  Page,
+  RefreshResponse,
+  ResetTokenInfo,
+  Role,
+  Session,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  User,
+  VerifyEmailResponse,
+} from '../types';
+
+export const ROLES: Role[] = ['user', 'operator', 'staff', 'auditor', 'admin'];
+
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'cancelled', 'completed'];
+
+export const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'expired', 'revoked'];
+
+export const userSchema: Yup.ObjectSchema<User> = Yup.object({
+  id: Yup.number().required(),
+  email: Yup.string().required(),
+  role: Yup.mixed<Role>().oneOf(ROLES).required(),
+  emailVerified: Yup.boolean(),
+  displayName: Yup.string().nullable(),
+  phone: Yup.string().nullable(),
+  twoFactorEnabled: Yup.boolean(),
+  suspended: Yup.boolean(),
+});
+
+export const adminUserSchema: Yup.ObjectSchema<AdminUser> = userSchema.shape({
+  hotelCount: Yup.number().required(),
+});
+
+export const nightAvailabilitySchema: Yup.ObjectSchema<NightAvailability> = Yup.object({
+  date: Yup.string().required(),
+  availableRooms: Yup.number().required(),
+});
+
+export const hotelStaySchema: Yup.ObjectSchema<HotelStay> = Yup.object({
+  checkInDate: Yup.string().required(),
+  checkOutDate: Yup.string().required(),
+  nights: Yup.number().required(),
+  guests: Yup.number().required(),
+  rooms: Yup.number().required(),
+  availableRooms: Yup.number().required(),
+  availabilityByDate: Yup.array(nightAvailabilitySchema).required(),
+  nightlyPrice: Yup.number().required(),
+  totalPrice: Yup.number().required(),
+});
+
+export const hotelSchema: Yup.ObjectSchema<Hotel> = Yup.object({
+  id: Yup.number().required(),
+  name: Yup.string().required(),
+  address: Yup.string().required(),
+  description: Yup.string().nullable(),
+  price: Yup.number().required(),
+  totalRooms: Yup.number().optional(),
+  availableRooms: Yup.number().required(),
+  operatorId: Yup.number().nullable(),
+  latitude: Yup.number().nullable(),
+  longitude: Yup.number().nullable(),
+  stay: hotelStaySchema.nullable().default(undefined),
+});
+
+export const bookingSchema: Yup.ObjectSchema<Booking> = Yup.object({
+  id: Yup.number().required(),
+  hotelName: Yup.string().required(),
+  hotelAddress: Yup.string().required(),
+  userEmail: Yup.string().nullable(),
+  checkInDate: Yup.string().required(),
+  checkOutDate: Yup.string().required(),
+  guestCount: Yup.number().required(),
+  totalPrice: Yup.number().required(),
+  status: Yup.mixed<BookingStatus>().oneOf(BOOKING_STATUSES).required(),
+  specialRequests: Yup.string().nullable(),
+  createdAt: Yup.string().required(),
+});
+
+export const messageSchema: Yup.ObjectSchema<MessageResponse> = Yup.object({
+  message: Yup.string(),
+});
+
+export const loginResponseSchema: Yup.ObjectSchema<LoginResponse> = Yup.object({
+  token: Yup.string().required(),
+  refreshToken: Yup.string().nullable(),
+  user: userSchema.required(),
+  backupCodes: Yup.array(Yup.string().required()),
+});
+
+export const twoFactorChallengeSchema: Yup.ObjectSchema<TwoFactorChallenge> = Yup.object({
+  twoFactorRequired: Yup.mixed<true>().oneOf([true]).required(),
+  challengeToken: Yup.string().required(),
+  enrollmentRequired: Yup.boolean(),
+});
+
+export const captchaChallengeSchema: Yup.ObjectSchema<CaptchaChallenge> = Yup.object({
+  provider: Yup.string().required(),
+  id: Yup.string().required(),
+  prompt: Yup.string(),
+  siteKey: Yup.string(),
+});
+
+export const twoFactorSetupSchema: Yup.ObjectSchema<TwoFactorSetup> = Yup.object({
+  secret: Yup.string().required(),
+  otpauthUrl: Yup.string().required(),
+});
+
+export const backupCodesResponseSchema: Yup.ObjectSchema<BackupCodesResponse> = Yup.object({
+  backupCodes: Yup.array(Yup.string().required()).required(),
+});
+
+export const refreshResponseSchema: Yup.ObjectSchema<RefreshResponse> = Yup.object({
+  token: Yup.string().required(),
+  refreshToken: Yup.string().nullable(),
+});
+
+export const resetTokenInfoSchema: Yup.ObjectSchema<ResetTokenInfo> = Yup.object({
+  email: Yup.string().required(),
+});
+
+export const verifyEmailResponseSchema: Yup.ObjectSchema<VerifyEmailResponse> = Yup.object({
+  message: Yup.string(),
+  email: Yup.string().required(),
+});
+
+export const sessionSchema: Yup.ObjectSchema<Session> = Yup.object({
+  id: Yup.string().required(),
+  userAgent: Yup.string().defined(),
+  createdAt: Yup.string().required(),
+  lastSeenAt: Yup.string().required(),
+  current: Yup.boolean().required(),
+});
+
+export const invitationSchema: Yup.ObjectSchema<Invitation> = Yup.object({
+  id: Yup.number().required(),
+  email: Yup.string().required(),
+  role: Yup.mixed<Role>().oneOf(ROLES).required(),
+  status: Yup.mixed<InvitationStatus>().oneOf(INVITATION_STATUSES).required(),
+  invitedBy: Yup.string().nullable(),
+  createdAt: Yup.string().required(),
+  expiresAt: Yup.string().required(),
+  link: Yup.string(),
+});
+
+export const invitationDetailsSchema: Yup.ObjectSchema<InvitationDetails> = Yup.object({
+  email: Yup.string().required(),
+  role: Yup.mixed<Role>().oneOf(ROLES).required(),
+  expiresAt: Yup.string().required(),
+});
+
+export const hotelListSchema = Yup.array(hotelSchema.required()).required();
+
+export const hotelSuggestionsSchema: Yup.ObjectSchema<HotelSuggestions> = Yup.object({
+  hotels: Yup.array(Yup.object({
+    id: Yup.number().required(),
+    name: Yup.string().required(),
+    address: Yup.string().required(),
+  }).required()).required(),
+  locations: Yup.array(Yup.object({
+    name: Yup.string().required(),
+    hotelCount: Yup.number().required(),
+  }).required()).required(),
+});
+
+export const hotelPageSchema: Yup.ObjectSchema<Page<Hotel>> = Yup.object({
+  items: hotelListSchema,
+  total: Yup.number().integer().min(0).required(),
+  page: Yup.number().integer().min(1).required(),
+  pageSize: Yup.number().integer().min(1).required(),
+});
+
+export const bookingListSchema = Yup.array(bookingSchema.required()).required();
+
+export const sessionListSchema = Yup.array(sessionSchema.required()).required();
+
+export const adminUserListSchema = Yup.array(adminUserSchema.required()).required();
+
+export const invitationListSchema = Yup.array(invitationSchema.required()).required();
+
+export const accountExportSchema: Yup.ObjectSchema<AccountExport> = Yup.object({
+  exportedAt: Yup.string().required(),
+  profile: userSchema.required(),
+  favorites: hotelListSchema,
+  bookings: bookingListSchema,
+});
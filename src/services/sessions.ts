@@ -0,0 +1,31 @@
+import api from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { Session } from '../types';
+import { messageSchema, sessionListSchema } from './schemas';
+import { queryKeys } from './queryKeys';
+import { parseResponse } from './validate';
+
+export const sessionsService = {
+  list: async (): Promise<Session[]> => {
+    const response = await api.get('/sessions');
+    return parseResponse(sessionListSchema, response.data, 'GET /sessions');
+  },
+
+  revoke: async (id: string) => {
+    const response = await api.delete(`/sessions/${encodeURIComponent(id)}`);
+    invalidateQueries(queryKeys.sessions);
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /sessions/:id');
+  },
+
+  // Signs this device out on the server, so its refresh token stops working.
+  revokeCurrent: async () => {
+    const response = await api.delete('/sessions/current');
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /sessions/current');
+  },
+
+  revokeOthers: async () => {
+    const response = await api.delete('/sessions');
+    invalidateQueries(queryKeys.sessions);
+    return parseResponse(messageSchema, response.data ?? {}, 'DELETE /sessions');
+  },
+};
@@ -0,0 +1,31 @@
+import api from '../utils/api';
+import { LoginResponse, TwoFactorLoginInput, TwoFactorSetup } from '../types';
+import { backupCodesResponseSchema, loginResponseSchema, messageSchema, twoFactorSetupSchema } from './schemas';
+import { parseResponse } from './validate';
+
+export const twoFactorService = {
+  verifyLogin: async (input: TwoFactorLoginInput): Promise<LoginResponse> => {
+    const response = await api.post('/auth/2fa/challenge', input);
+    return parseResponse(loginResponseSchema, response.data, 'POST /auth/2fa/challenge');
+  },
+
+  setupLogin: async (challengeToken: string): Promise<TwoFactorSetup> => {
+    const response = await api.post('/auth/2fa/challenge/setup', { challengeToken });
+    return parseResponse(twoFactorSetupSchema, response.data, 'POST /auth/2fa/challenge/setup');
+  },
+
+  setup: async (): Promise<TwoFactorSetup> => {
+    const response = await api.post('/auth/2fa/setup');
+    return parseResponse(twoFactorSetupSchema, response.data, 'POST /auth/2fa/setup');
+  },
+
+  enable: async (code: string) => {
+    const response = await api.post('/auth/2fa/enable', { code });
+    return parseResponse(backupCodesResponseSchema, response.data, 'POST /auth/2fa/enable');
+  },
+
+  disable: async (code: string) => {
+    const response = await api.post('/auth/2fa/disable', { code });
+    return parseResponse(messageSchema, response.data ?? {}, 'POST /auth/2fa/disable');
+  },
+};
@@ -0,0 +1,29 @@
+import { parseResponse, ResponseValidationError } from './validate';
+import { hotelListSchema, hotelSchema } from './schemas';
+
+const hotel = { id: 1, name: 'Harbour View', address: '1 Quay St', price: 420, availableRooms: 3 };
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+test('returns the validated payload', () => {
+  expect(parseResponse(hotelSchema, hotel, 'GET /hotels/:id')).toMatchObject(hotel);
+  expect(parseResponse(hotelListSchema, [hotel], 'GET /hotels')).toHaveLength(1);
+});
+
+test('accepts hotels with or without a separate room count', () => {
+  expect(parseResponse(hotelSchema, { ...hotel, totalRooms: 5 }, 'GET /hotels/:id')).toMatchObject({ totalRooms: 5 });
+  expect(parseResponse(hotelSchema, hotel, 'GET /hotels/:id').totalRooms).toBeUndefined();
+});
+
+test('reports every problem with the endpoint that returned it', () => {
+  const call = () => parseResponse(hotelSchema, { ...hotel, price: 'free', name: undefined }, 'GET /hotels/:id');
+
+  expect(call).toThrow(ResponseValidationError);
+  expect(call).toThrow(expect.objectContaining({
+    code: 'INVALID_RESPONSE',
+    endpoint: 'GET /hotels/:id',
+    problems: expect.arrayContaining([expect.stringContaining('name'), expect.stringContaining('price')]),
+  }));
+});
@@ -0,0 +1,30 @@
+import * as Yup from 'yup';
+import { ApiError } from '../utils/apiError';
+
+export class ResponseValidationError extends ApiError {
+  endpoint: string;
+  problems: string[];
+
+  constructor(endpoint: string, problems: string[]) {
+    super({
+      code: 'INVALID_RESPONSE',
+      message: 'The server returned an unexpected response, please try again later',
+      details: { endpoint, problems },
+    });
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.problems = problems;
+  }
+}
+
+export const parseResponse = <T>(schema: Yup.Schema<T>, data: unknown, endpoint: string): T => {
+  try {
+    return schema.validateSync(data, { abortEarly: false });
+  } catch (error) {
+    if (error instanceof Yup.ValidationError) {
+      console.error(`Invalid response from ${endpoint}:`, error.errors);
+      throw new ResponseValidationError(endpoint, error.errors);
+    }
+    throw error;
+  }
+};
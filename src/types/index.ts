@@ -0,0 +1,263 @@
+export type Role = 'user' | 'operator' | 'staff' | 'auditor' | 'admin';
+
+export interface User {
+  id: number;
+  email: string;
+  role: Role;
+  emailVerified?: boolean;
+  displayName?: string | null;
+  phone?: string | null;
+  twoFactorEnabled?: boolean;
+  suspended?: boolean;
+}
+
+export interface AdminUser extends User {
+  hotelCount: number;
+}
+
+export interface AdminUserQuery {
+  search?: string;
+}
+
+export interface AdminUserUpdate {
+  role?: Role;
+  suspended?: boolean;
+}
+
+export interface ProfileInput {
+  displayName: string;
+  phone: string;
+  email: string;
+  currentPassword?: string;
+}
+
+export interface Hotel {
+  id: number;
+  name: string;
+  address: string;
+  description?: string | null;
+  price: number;
+  // Rooms the hotel has in total, and how many of them are free tonight. Older APIs only send
+  // `availableRooms`, which then doubles as the room count; read it through `roomInventory`.
+  totalRooms?: number;
+  availableRooms: number;
+  operatorId?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  stay?: HotelStay | null;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NightAvailability {
+  date: string;
+  availableRooms: number;
+}
+
+export interface HotelStay {
+  checkInDate: string;
+  checkOutDate: string;
+  nights: number;
+  guests: number;
+  rooms: number;
+  // The fewest rooms free on any night of the stay.
+  availableRooms: number;
+  availabilityByDate: NightAvailability[];
+  nightlyPrice: number;
+  totalPrice: number;
+}
+
+export interface HotelInput {
+  name: string;
+  address: string;
+  description?: string;
+  price: number;
+  // The room count; writes keep the API's original field name.
+  availableRooms: number;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface HotelSuggestions {
+  hotels: Pick<Hotel, 'id' | 'name' | 'address'>[];
+  locations: { name: string; hotelCount: number }[];
+}
+
+export type HotelSort = 'price_asc' | 'price_desc' | 'availability' | 'name';
+
+export interface HotelQuery {
+  name?: string;
+  location?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRooms?: number;
+  sort?: HotelSort;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+}
+
+export type StayQuery = Pick<HotelQuery, 'checkIn' | 'checkOut' | 'guests'>;
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface Booking {
+  id: number;
+  hotelName: string;
+  hotelAddress: string;
+  userEmail?: string | null;
+  checkInDate: string;
+  checkOutDate: string;
+  guestCount: number;
+  totalPrice: number;
+  status: BookingStatus;
+  specialRequests?: string | null;
+  createdAt: string;
+}
+
+export interface BookingInput {
+  hotelId: number;
+  checkInDate: string;
+  checkOutDate: string;
+  guestCount: number;
+  specialRequests?: string;
+}
+
+export interface MessageResponse {
+  message?: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+  captchaToken?: string;
+}
+
+export interface CaptchaChallenge {
+  provider: string;
+  id: string;
+  prompt?: string;
+  siteKey?: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  refreshToken?: string | null;
+  user: User;
+  backupCodes?: string[];
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  enrollmentRequired?: boolean;
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallenge;
+
+export interface TwoFactorLoginInput {
+  challengeToken: string;
+  code: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface BackupCodesResponse {
+  backupCodes: string[];
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string | null;
+}
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  inviteToken?: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id: number;
+  email: string;
+  role: Role;
+  status: InvitationStatus;
+  invitedBy?: string | null;
+  createdAt: string;
+  expiresAt: string;
+  link?: string;
+}
+
+export interface InvitationInput {
+  email: string;
+}
+
+export interface InvitationDetails {
+  email: string;
+  role: Role;
+  expiresAt: string;
+}
+
+export interface VerifyEmailResponse {
+  message?: string;
+  email: string;
+}
+
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+export interface ResetTokenInfo {
+  email: string;
+}
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+export interface AccountExport {
+  exportedAt: string;
+  profile: User;
+  favorites: Hotel[];
+  bookings: Booking[];
+}
+
+export type PendingAction = 'openBookingDialog';
+
+export type SessionEndReason = 'sessionExpired' | 'sessionRevoked';
+
+export interface LoginRedirectState {
+  from?: string;
+  reason?: SessionEndReason;
+  pendingAction?: PendingAction;
+}
+
+export interface RedirectTargetState {
+  pendingAction?: PendingAction;
+  backTo?: string;
+}
@@ -0,0 +1,140 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as config from '../config';
+import api, { setSessionExpiredHandler } from './api';
+import { tokenStorage } from './tokenStorage';
+
+type Reply = { status: number; data?: unknown } | 'network';
+type Route = (request: InternalAxiosRequestConfig) => Reply;
+
+const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+const makeToken = (name: string, expiresInSeconds: number) =>
+  `${encode({ alg: 'none' })}.${encode({ name, exp: Math.floor(Date.now() / 1000) + expiresInSeconds })}.sig`;
+
+const requests: InternalAxiosRequestConfig[] = [];
+const delays: number[] = [];
+let route: Route;
+
+const adapter = async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  requests.push(request);
+  const reply = route(request);
+  if (reply === 'network') {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, request);
+  }
+  const response = { data: reply.data ?? {}, status: reply.status, statusText: '', headers: {}, config: request };
+  if (reply.status >= 400) {
+    throw new AxiosError(`Request failed with status ${reply.status}`, AxiosError.ERR_BAD_RESPONSE, request, null, response);
+  }
+  return response;
+};
+
+const requestsTo = (url: string) => requests.filter(request => request.url === url);
+const onSessionExpired = jest.fn();
+const realSetTimeout = window.setTimeout;
+
+beforeEach(() => {
+  requests.length = 0;
+  delays.length = 0;
+  localStorage.clear();
+  api.defaults.adapter = adapter;
+  setSessionExpiredHandler(onSessionExpired);
+  jest.spyOn(config, 'getConfig').mockReturnValue({
+    apiBaseUrl: '/api',
+    apiTimeout: 1000,
+    retry: { retries: 2, retryDelay: 100, retryOn: [503] },
+    useMockApi: false,
+    mapProvider: 'local',
+    mapContactEmail: '',
+  });
+  jest.spyOn(window, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    return realSetTimeout(callback, 0);
+  }) as typeof window.setTimeout);
+});
+
+describe('token refresh', () => {
+  const fresh = makeToken('fresh', 3600);
+
+  beforeEach(() => {
+    tokenStorage.setTokens(makeToken('stale', -60), makeToken('refresh', 3600));
+  });
+
+  test('queues concurrent requests behind a single refresh', async () => {
+    route = request => (request.url === '/auth/refresh'
+      ? { status: 200, data: { token: fresh, refreshToken: makeToken('refresh-2', 3600) } }
+      : { status: 200, data: { ok: true } });
+
+    await Promise.all([api.get('/hotels'), api.get('/favorites'), api.get('/bookings/my')]);
+
+    expect(requestsTo('/auth/refresh')).toHaveLength(1);
+    requests.filter(request => request.url !== '/auth/refresh').forEach(request => {
+      expect(request.headers['Authorization']).toBe(`Bearer ${fresh}`);
+    });
+    expect(tokenStorage.getAccessToken()).toBe(fresh);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  test('ends the session when the server rejects the refresh token', async () => {
+    route = request => (request.url === '/auth/refresh'
+      ? { status: 401, data: { message: 'Invalid token' } }
+      : { status: 200 });
+
+    const results = await Promise.allSettled([api.get('/hotels'), api.get('/favorites')]);
+
+    results.forEach(result => {
+      expect(result).toMatchObject({ status: 'rejected', reason: { code: 'SESSION_EXPIRED' } });
+    });
+    expect(onSessionExpired).toHaveBeenCalledWith('sessionExpired');
+  });
+
+  test('reports a revoked session as such', async () => {
+    route = () => ({ status: 401, data: { message: 'Signed out', code: 'SESSION_REVOKED' } });
+
+    await expect(api.get('/hotels')).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    expect(onSessionExpired).toHaveBeenCalledWith('sessionRevoked');
+  });
+
+  test.each([
+    ['a network failure', 'network' as const, 'NETWORK_ERROR'],
+    ['a server error', { status: 500 }, 'SERVER_ERROR'],
+  ])('keeps the session after %s', async (_, reply, code) => {
+    const refreshToken = tokenStorage.getRefreshToken();
+    route = request => (request.url === '/auth/refresh' ? reply : { status: 200 });
+
+    const results = await Promise.allSettled([api.get('/hotels'), api.get('/favorites')]);
+
+    results.forEach(result => {
+      expect(result).toMatchObject({ status: 'rejected', reason: { code } });
+    });
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    expect(tokenStorage.getRefreshToken()).toBe(refreshToken);
+  });
+});
+
+describe('retries', () => {
+  test('retries idempotent requests with exponential backoff', async () => {
+    let attempts = 0;
+    route = () => {
+      attempts += 1;
+      return attempts < 3 ? { status: 503 } : { status: 200, data: { ok: true } };
+    };
+
+    await expect(api.get('/hotels')).resolves.toMatchObject({ data: { ok: true } });
+    expect(requests).toHaveLength(3);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    route = () => 'network';
+
+    await expect(api.get('/hotels')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(requests).toHaveLength(3);
+  });
+
+  test('does not retry writes or statuses outside the policy', async () => {
+    route = request => ({ status: request.method === 'post' ? 503 : 500 });
+
+    await expect(api.post('/bookings', {})).rejects.toMatchObject({ status: 503 });
+    await expect(api.get('/hotels')).rejects.toMatchObject({ status: 500 });
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -1,12 +1,126 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AppConfig, getConfig } from '../config';
+import { ApiError, toApiError } from './apiError';
+import { refreshResponseSchema } from '../services/schemas';
+import { SessionEndReason } from '../types';
+import { parseResponse } from '../services/validate';
+import { isTokenExpired } from './token';
+import { tokenStorage } from './tokenStorage';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    skipAuthRefresh?: boolean;
+    _retry?: boolean;
+    _retryCount?: number;
+  }
+}
+
+export class SessionExpiredError extends ApiError {
+  constructor() {
+    super({ status: 401, code: 'SESSION_EXPIRED', message: 'Your session has expired, please login again' });
+    this.name = 'SessionExpiredError';
+  }
+}
+
+type SessionExpiredHandler = (reason: SessionEndReason) => void;
+
+interface QueuedRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
+let sessionExpiredHandler: SessionExpiredHandler | null = null;
+let isRefreshing = false;
+let refreshQueue: QueuedRequest[] = [];
+
+export const setSessionExpiredHandler = (handler: SessionExpiredHandler | null) => {
+  sessionExpiredHandler = handler;
+};
+
+const notifySessionExpired = (reason: SessionEndReason = 'sessionExpired') => {
+  sessionExpiredHandler?.(reason);
+};
+
+const isSessionRevoked = (error: unknown) => toApiError(error).code === 'SESSION_REVOKED';
+
+const REJECTED_REFRESH_CODES = ['SESSION_REVOKED', 'INVALID_REFRESH_TOKEN', 'INVALID_TOKEN'];
+
+// Only an answer from the server that the refresh token itself is no good ends the session;
+// network failures, timeouts and 5xx leave the tokens in place so the next request can try again.
+const isRefreshRejected = (error: unknown) => {
+  const apiError = toApiError(error);
+  return apiError.status === 401 || REJECTED_REFRESH_CODES.includes(apiError.code);
+};
 
 const api = axios.create({
-  baseURL: 'http://localhost:3000/api', 
-  timeout: 10000,
+  baseURL: getConfig().apiBaseUrl,
+  timeout: getConfig().apiTimeout,
 });
 
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+export const configureApi = (config: AppConfig) => {
+  api.defaults.baseURL = config.apiBaseUrl;
+  api.defaults.timeout = config.apiTimeout;
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+const shouldRetry = (error: AxiosError, config: InternalAxiosRequestConfig) => {
+  const { retries, retryOn } = getConfig().retry;
+  const method = (config.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.includes(method) || (config._retryCount || 0) >= retries) {
+    return false;
+  }
+  if (error.code === AxiosError.ERR_CANCELED) return false;
+  return !error.response || retryOn.includes(error.response.status);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const processQueue = (error: unknown, token: string | null) => {
+  refreshQueue.forEach(({ resolve, reject }) => (token ? resolve(token) : reject(error)));
+  refreshQueue = [];
+};
+
+const refreshAccessToken = async (): Promise<string> => {
+  if (isRefreshing) {
+    return new Promise((resolve, reject) => refreshQueue.push({ resolve, reject }));
+  }
+
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken || isTokenExpired(refreshToken, 0)) {
+    notifySessionExpired();
+    throw new SessionExpiredError();
+  }
+
+  isRefreshing = true;
+  try {
+    const response = await api.post('/auth/refresh', { refreshToken }, { skipAuthRefresh: true });
+    const tokens = parseResponse(refreshResponseSchema, response.data, 'POST /auth/refresh');
+    tokenStorage.setTokens(tokens.token, tokens.refreshToken);
+    processQueue(null, tokens.token);
+    return tokens.token;
+  } catch (error) {
+    if (!isRefreshRejected(error)) {
+      const refreshError = toApiError(error);
+      processQueue(refreshError, null);
+      throw refreshError;
+    }
+    const sessionError = new SessionExpiredError();
+    processQueue(sessionError, null);
+    notifySessionExpired(isSessionRevoked(error) ? 'sessionRevoked' : 'sessionExpired');
+    throw sessionError;
+  } finally {
+    isRefreshing = false;
+  }
+};
+
+api.interceptors.request.use(async (config) => {
+  if (config.skipAuthRefresh) return config;
+
+  let token = tokenStorage.getAccessToken();
+  if (token && isTokenExpired(token)) {
+    token = await refreshAccessToken();
+  }
   if (token) {
     config.headers = config.headers || {};
     config.headers['Authorization'] = `Bearer ${token}`;
@@ -14,12 +128,40 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+const handleResponseError = async (error: AxiosError) => {
+  const config = error.config as InternalAxiosRequestConfig | undefined;
+  if (config && shouldRetry(error, config)) {
+    config._retryCount = (config._retryCount || 0) + 1;
+    await wait(getConfig().retry.retryDelay * 2 ** (config._retryCount - 1));
+    return api(config);
+  }
 
-api.interceptors.response.use(
-  (response) => response,
-  (error) => {
+  const sentAuthorization = config?.headers?.['Authorization'];
+  if (!config || error.response?.status !== 401 || !sentAuthorization || config.skipAuthRefresh) {
     return Promise.reject(error);
   }
+
+  const currentToken = tokenStorage.getAccessToken();
+  if (currentToken && sentAuthorization !== `Bearer ${currentToken}`) {
+    return api(config);
+  }
+  if (isSessionRevoked(error)) {
+    notifySessionExpired('sessionRevoked');
+    return Promise.reject(error);
+  }
+  if (config._retry || !tokenStorage.getRefreshToken()) {
+    notifySessionExpired();
+    return Promise.reject(error);
+  }
+
+  config._retry = true;
+  await refreshAccessToken();
+  return api(config);
+};
+
+api.interceptors.response.use(
+  (response) => response,
+  (error) => handleResponseError(error).catch(failure => Promise.reject(toApiError(failure)))
 );
 
-export default api; 
\ No newline at end of file
+export default api; 
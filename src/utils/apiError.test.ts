@@ -0,0 +1,43 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { toApiError } from './apiError';
+
+const responseError = (status: number, data: unknown, headers: Record<string, string> = {}) => {
+  const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = { status, statusText: '', data, headers, config } as AxiosResponse;
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, config, null, response);
+};
+
+test('reads the message, field errors and details from an object body', () => {
+  const error = toApiError(responseError(422, {
+    message: 'Booking details are invalid',
+    errors: { guestCount: ['Bookings are for 1 to 10 guests'] },
+    requestId: 'req-1',
+    remainingAttempts: 2,
+  }));
+
+  expect(error).toMatchObject({
+    status: 422,
+    code: 'VALIDATION_FAILED',
+    message: 'Booking details are invalid',
+    fieldErrors: { guestCount: 'Bookings are for 1 to 10 guests' },
+    requestId: 'req-1',
+    details: { remainingAttempts: 2 },
+    generic: false,
+  });
+});
+
+test.each([
+  ['a text body', 'Bad Gateway'],
+  ['an empty body', null],
+])('falls back to a generic error for %s', (_, data) => {
+  const error = toApiError(responseError(502, data, { 'x-request-id': 'req-2', 'retry-after': '30' }));
+
+  expect(error).toMatchObject({
+    code: 'SERVER_ERROR',
+    message: 'Request failed with status 502',
+    fieldErrors: {},
+    requestId: 'req-2',
+    generic: true,
+  });
+  expect(error.retryAfter).toBe(30);
+});
@@ -0,0 +1,121 @@
+import { AxiosError } from 'axios';
+
+export type FieldErrors = Record<string, string>;
+
+export interface ApiErrorOptions {
+  status?: number | null;
+  code: string;
+  message: string;
+  fieldErrors?: FieldErrors;
+  requestId?: string | null;
+  details?: Record<string, unknown>;
+  generic?: boolean;
+}
+
+export class ApiError extends Error {
+  status: number | null;
+  code: string;
+  fieldErrors: FieldErrors;
+  requestId: string | null;
+  details: Record<string, unknown>;
+  generic: boolean;
+
+  constructor({ status = null, code, message, fieldErrors = {}, requestId = null, details = {}, generic = false }: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.requestId = requestId;
+    this.details = details;
+    this.generic = generic;
+  }
+
+  hasFieldErrors() {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  get retryAfter() {
+    const value = Number(this.details.retryAfter);
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+}
+
+const STATUS_CODES: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'VALIDATION_FAILED',
+  429: 'TOO_MANY_REQUESTS',
+};
+
+const normalizeFieldErrors = (errors: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(errors)) {
+    errors.forEach(item => {
+      const field = item?.field ?? item?.path ?? item?.param;
+      const message = item?.message ?? item?.msg;
+      if (typeof field === 'string' && typeof message === 'string') {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, message]) => {
+      const text = Array.isArray(message) ? message[0] : message;
+      if (typeof text === 'string') {
+        fieldErrors[field] = text;
+      }
+    });
+  }
+  return fieldErrors;
+};
+
+const fromAxiosError = (error: AxiosError<unknown>) => {
+  if (error.code === AxiosError.ERR_CANCELED) {
+    return new ApiError({ code: 'CANCELED', message: 'Request was cancelled' });
+  }
+  if (!error.response) {
+    const timedOut = error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT;
+    return new ApiError({
+      code: timedOut ? 'TIMEOUT' : 'NETWORK_ERROR',
+      message: timedOut
+        ? 'The server took too long to respond, please try again'
+        : 'Unable to reach the server, please check your connection',
+    });
+  }
+
+  const { status, data, headers } = error.response;
+  const body: Record<string, unknown> = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  const { message, code, errors, requestId, ...details } = body;
+  const retryAfterHeader = parseInt(headers?.['retry-after'] ?? '', 10);
+  if (details.retryAfter === undefined && Number.isFinite(retryAfterHeader)) {
+    details.retryAfter = retryAfterHeader;
+  }
+  const serverMessage = typeof message === 'string' && message ? message : null;
+  return new ApiError({
+    status,
+    code: typeof code === 'string' ? code : STATUS_CODES[status] ?? (status >= 500 ? 'SERVER_ERROR' : 'HTTP_ERROR'),
+    message: serverMessage ?? `Request failed with status ${status}`,
+    fieldErrors: normalizeFieldErrors(errors),
+    requestId: typeof requestId === 'string' ? requestId : headers?.['x-request-id'] ?? null,
+    details,
+    generic: !serverMessage,
+  });
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error instanceof AxiosError) return fromAxiosError(error);
+  return new ApiError({
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : 'Unexpected error',
+    generic: true,
+  });
+};
+
+export const getErrorMessage = (error: unknown, fallback: string) => {
+  const apiError = toApiError(error);
+  return apiError.generic ? fallback : apiError.message;
+};
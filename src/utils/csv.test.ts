@@ -0,0 +1,22 @@
+import { toCsv } from './csv';
+
+test('writes a header row and quotes cells that need it', () => {
+  const rows = [{ name: 'Harbour "View"', address: '1 Quay St, Sydney', rooms: 3, notes: null }];
+
+  expect(toCsv(rows, ['name', 'address', 'rooms', 'notes'])).toBe(
+    'name,address,rooms,notes\r\n"Harbour ""View""","1 Quay St, Sydney",3,'
+  );
+});
+
+test.each([
+  ['=HYPERLINK("http://evil.example")', `"'=HYPERLINK(""http://evil.example"")"`],
+  ['+1 555 0100', "'+1 555 0100"],
+  ['-2+3', "'-2+3"],
+  ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+])('keeps %j from running as a formula', (value, cell) => {
+  expect(toCsv([{ value }], ['value'])).toBe(`value\r\n${cell}`);
+});
+
+test('leaves negative numbers alone', () => {
+  expect(toCsv([{ total: -120 }], ['total'])).toBe('total\r\n-120');
+});
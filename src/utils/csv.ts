@@ -0,0 +1,15 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run cells starting with these as formulas, so they are prefixed to stay plain text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T extends object>(rows: T[], columns: (keyof T & string)[]) =>
+  [columns, ...rows.map(row => columns.map(column => row[column] as CsvValue))]
+    .map(cells => cells.map(escapeCell).join(','))
+    .join('\r\n');
@@ -0,0 +1,30 @@
+import { downloadFile } from './download';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  // jsdom has no object URLs, so the test provides them.
+  URL.createObjectURL = jest.fn(() => 'blob:export');
+  URL.revokeObjectURL = jest.fn();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+test('clicks an attached link and revokes the URL only after the click has been handled', () => {
+  const clicks: { filename: string; attached: boolean }[] = [];
+  jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+    clicks.push({ filename: this.download, attached: document.body.contains(this) });
+  });
+
+  downloadFile('codes.txt', 'abc\n');
+
+  expect(clicks).toEqual([{ filename: 'codes.txt', attached: true }]);
+  expect(document.body.querySelector('a')).toBeNull();
+  expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+  jest.runAllTimers();
+
+  expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+});
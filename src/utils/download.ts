@@ -0,0 +1,12 @@
+export const downloadFile = (filename: string, content: string, type = 'text/plain') => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox and Safari ignore clicks on detached links and cancel downloads whose URL is revoked too early.
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,20 @@
+import { FormikErrors, FormikProps, FormikTouched } from 'formik';
+import { toApiError } from './apiError';
+
+type FormikFieldHelpers<Values> = Pick<FormikProps<Values>, 'values' | 'setErrors' | 'setTouched' | 'touched'>;
+
+export const applyFieldErrors = <Values extends object>(formik: FormikFieldHelpers<Values>, error: unknown) => {
+  const { fieldErrors } = toApiError(error);
+  const fields = Object.keys(fieldErrors).filter(field => field in formik.values);
+  if (fields.length === 0) return false;
+
+  const errors: Record<string, string> = {};
+  const touched: Record<string, boolean> = {};
+  fields.forEach(field => {
+    errors[field] = fieldErrors[field];
+    touched[field] = true;
+  });
+  formik.setTouched({ ...formik.touched, ...touched } as FormikTouched<Values>, false);
+  formik.setErrors(errors as FormikErrors<Values>);
+  return true;
+};
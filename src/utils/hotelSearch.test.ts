@@ -0,0 +1,66 @@
+import {
+  fromFilterForm,
+  localToday,
+  readHotelQuery,
+  roomInventory,
+  toFilterForm,
+  toHotelParams,
+  validateFilterForm,
+} from './hotelSearch';
+
+test('reads filters from the URL and drops invalid values', () => {
+  const params = new URLSearchParams('name=%20Harbour%20&minPrice=-5&maxPrice=400&sort=random&minRooms=2');
+
+  expect(readHotelQuery(params)).toEqual({
+    name: 'Harbour',
+    location: undefined,
+    minPrice: undefined,
+    maxPrice: 400,
+    minRooms: 2,
+    sort: undefined,
+    checkIn: undefined,
+    checkOut: undefined,
+    guests: undefined,
+  });
+});
+
+test('keeps a stay only when check-out follows check-in', () => {
+  const valid = readHotelQuery(new URLSearchParams('checkIn=2030-05-01&checkOut=2030-05-03&guests=3'));
+  const reversed = readHotelQuery(new URLSearchParams('checkIn=2030-05-03&checkOut=2030-05-01&guests=1.5'));
+
+  expect(valid).toMatchObject({ checkIn: '2030-05-01', checkOut: '2030-05-03', guests: 3 });
+  expect(reversed).toMatchObject({ checkIn: undefined, checkOut: undefined, guests: undefined });
+});
+
+test('round-trips the filter form through URL params', () => {
+  const query = { name: 'Harbour', maxPrice: 400, sort: 'price_asc' as const };
+  const form = toFilterForm(query);
+
+  expect(toHotelParams(fromFilterForm(form))).toEqual({ name: 'Harbour', maxPrice: '400', sort: 'price_asc' });
+});
+
+test('uses the local calendar date for today', () => {
+  expect(localToday(new Date(2030, 0, 1, 23, 45))).toBe('2030-01-01');
+  expect(localToday(new Date(2030, 11, 31, 0, 5))).toBe('2030-12-31');
+});
+
+test('flags filters that cannot be searched for', () => {
+  const form = toFilterForm({});
+
+  expect(validateFilterForm(form)).toEqual({});
+  expect(validateFilterForm({ ...form, minPrice: '500', maxPrice: '200' })).toEqual({ maxPrice: 'Must be above min price' });
+  expect(validateFilterForm({ ...form, checkIn: '2030-05-01' })).toEqual({ checkOut: 'Select a check-out date' });
+  expect(validateFilterForm({ ...form, checkOut: '2030-05-01' })).toEqual({ checkIn: 'Select a check-in date' });
+  expect(validateFilterForm({ ...form, checkIn: '2030-05-01', checkOut: '2030-05-01' }))
+    .toEqual({ checkOut: 'Must be after check-in' });
+  expect(validateFilterForm({ ...form, guests: '11' })).toEqual({ guests: '1 to 10 guests' });
+  expect(validateFilterForm({ ...form, guests: '2.5' })).toEqual({ guests: '1 to 10 guests' });
+  expect(validateFilterForm({ ...form, guests: '10', checkIn: '2030-05-01', checkOut: '2030-05-02' })).toEqual({});
+});
+
+test('falls back to the available rooms when a hotel has no separate room count', () => {
+  const hotel = { id: 1, name: 'Harbour View', address: '1 Quay St', price: 420, availableRooms: 3 };
+
+  expect(roomInventory({ ...hotel, totalRooms: 5 })).toBe(5);
+  expect(roomInventory(hotel)).toBe(3);
+});
@@ -0,0 +1,108 @@
+import { Hotel, HotelQuery, HotelSort, StayQuery } from '../types';
+
+export const HOTEL_SORTS: { value: HotelSort; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'availability', label: 'Most rooms available' },
+];
+
+export const MAX_GUESTS_PER_BOOKING = 10;
+
+export const isBookableGuestCount = (guests: number) =>
+  Number.isInteger(guests) && guests >= 1 && guests <= MAX_GUESTS_PER_BOOKING;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date inputs use the visitor's calendar, so "today" is the local date rather than the UTC one.
+export const localToday = (now = new Date()) =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+const readText = (value: string | null) => value?.trim() || undefined;
+
+const readNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const readDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+
+const readSort = (value: string | null) =>
+  HOTEL_SORTS.find(sort => sort.value === value)?.value;
+
+export const readStay = (params: URLSearchParams): StayQuery => {
+  const checkIn = readDate(params.get('checkIn'));
+  const checkOut = readDate(params.get('checkOut'));
+  const guests = readNumber(params.get('guests'));
+  const validRange = Boolean(checkIn && checkOut && checkIn < checkOut);
+  return {
+    checkIn: validRange ? checkIn : undefined,
+    checkOut: validRange ? checkOut : undefined,
+    guests: guests && Number.isInteger(guests) ? guests : undefined,
+  };
+};
+
+export const readHotelQuery = (params: URLSearchParams): HotelQuery => ({
+  name: readText(params.get('name')),
+  location: readText(params.get('location')),
+  minPrice: readNumber(params.get('minPrice')),
+  maxPrice: readNumber(params.get('maxPrice')),
+  minRooms: readNumber(params.get('minRooms')),
+  sort: readSort(params.get('sort')),
+  ...readStay(params),
+});
+
+// Drops empty filters so they don't end up as `?name=&sort=` in the URL or the request.
+export const toHotelParams = (query: HotelQuery) => {
+  const params: Record<string, string> = {};
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params[key] = String(value);
+    }
+  });
+  return params;
+};
+
+export type HotelFilterForm = Record<keyof HotelQuery, string>;
+
+export const toFilterForm = (query: HotelQuery): HotelFilterForm => ({
+  name: query.name ?? '',
+  location: query.location ?? '',
+  minPrice: query.minPrice?.toString() ?? '',
+  maxPrice: query.maxPrice?.toString() ?? '',
+  minRooms: query.minRooms?.toString() ?? '',
+  sort: query.sort ?? '',
+  checkIn: query.checkIn ?? '',
+  checkOut: query.checkOut ?? '',
+  guests: query.guests?.toString() ?? '',
+});
+
+export const fromFilterForm = (form: HotelFilterForm) => readHotelQuery(new URLSearchParams(form));
+
+export type HotelFilterErrors = Partial<Record<keyof HotelFilterForm, string>>;
+
+// Every way of submitting a search goes through this, so none of them can apply filters the others reject.
+export const validateFilterForm = ({ minPrice, maxPrice, checkIn, checkOut, guests }: HotelFilterForm): HotelFilterErrors => {
+  const errors: HotelFilterErrors = {};
+  if (minPrice !== '' && maxPrice !== '' && Number(minPrice) > Number(maxPrice)) {
+    errors.maxPrice = 'Must be above min price';
+  }
+  if (guests !== '' && !isBookableGuestCount(Number(guests))) {
+    errors.guests = `1 to ${MAX_GUESTS_PER_BOOKING} guests`;
+  }
+  if (checkIn && !checkOut) {
+    errors.checkOut = 'Select a check-out date';
+  } else if (checkOut && !checkIn) {
+    errors.checkIn = 'Select a check-in date';
+  } else if (checkIn && checkOut && checkOut <= checkIn) {
+    errors.checkOut = 'Must be after check-in';
+  }
+  return errors;
+};
+
+export const roomInventory = (hotel: Hotel) => hotel.totalRooms ?? hotel.availableRooms;
+
+export const hasRoomsFor = (hotel: Hotel) =>
+  hotel.stay ? hotel.stay.availableRooms >= hotel.stay.rooms : hotel.availableRooms > 0;
@@ -0,0 +1,42 @@
+import { ApiError } from './apiError';
+import { formatCountdown, readLoginThrottle } from './loginThrottle';
+
+test('reads the remaining attempts and captcha challenge', () => {
+  const error = new ApiError({
+    status: 401,
+    code: 'INVALID_CREDENTIALS',
+    message: 'Incorrect email or password',
+    details: { remainingAttempts: 2, captcha: { provider: 'local', id: 'abc', prompt: 'What is 2 + 3?', extra: true } },
+  });
+
+  expect(readLoginThrottle(error)).toEqual({
+    lockedFor: null,
+    remainingAttempts: 2,
+    captcha: { provider: 'local', id: 'abc', prompt: 'What is 2 + 3?' },
+  });
+});
+
+test('reads a lockout from the retry hint', () => {
+  const locked = new ApiError({ status: 429, code: 'ACCOUNT_LOCKED', message: 'Locked', details: { retryAfter: 95 } });
+  const withoutHint = new ApiError({ status: 429, code: 'TOO_MANY_REQUESTS', message: 'Slow down' });
+
+  expect(readLoginThrottle(locked).lockedFor).toBe(95);
+  expect(readLoginThrottle(withoutHint).lockedFor).toBe(60);
+});
+
+test('ignores malformed throttle details', () => {
+  const error = new ApiError({
+    status: 401,
+    code: 'INVALID_CREDENTIALS',
+    message: 'Incorrect email or password',
+    details: { remainingAttempts: 'many', captcha: { prompt: 'no id' } },
+  });
+
+  expect(readLoginThrottle(error)).toEqual({ lockedFor: null, remainingAttempts: null, captcha: null });
+});
+
+test('formats a countdown as minutes and seconds', () => {
+  expect(formatCountdown(120)).toBe('2:00');
+  expect(formatCountdown(65)).toBe('1:05');
+  expect(formatCountdown(9)).toBe('0:09');
+});
@@ -0,0 +1,26 @@
+import { captchaChallengeSchema } from '../services/schemas';
+import { CaptchaChallenge } from '../types';
+import { toApiError } from './apiError';
+
+export interface LoginThrottle {
+  lockedFor: number | null;
+  remainingAttempts: number | null;
+  captcha: CaptchaChallenge | null;
+}
+
+export const readLoginThrottle = (error: unknown): LoginThrottle => {
+  const apiError = toApiError(error);
+  const remaining = Number(apiError.details.remainingAttempts);
+  return {
+    lockedFor: apiError.status === 429 ? apiError.retryAfter ?? 60 : null,
+    remainingAttempts: Number.isFinite(remaining) && remaining >= 0 ? remaining : null,
+    captcha: captchaChallengeSchema.isValidSync(apiError.details.captcha)
+      ? captchaChallengeSchema.cast(apiError.details.captcha, { stripUnknown: true })
+      : null,
+  };
+};
+
+export const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,43 @@
+import * as Yup from 'yup';
+import { checkPassword } from './passwordPolicy';
+import { passwordSchema } from './validation';
+
+test('accepts a password that meets every rule', () => {
+  expect(checkPassword('Harbour12')).toMatchObject({ valid: true, message: undefined, label: 'Fair' });
+  expect(checkPassword('Tr4vel-Harbour!')).toMatchObject({ valid: true, score: 4, label: 'Strong' });
+});
+
+test.each([
+  ['Harb1', 'Password must be at least 8 characters'],
+  ['HARBOUR12', 'Password must include a lowercase letter'],
+  ['harbour12', 'Password must include an uppercase letter'],
+  ['HarbourView', 'Password must include a number'],
+  ['Password1', 'This password is too common, please choose another'],
+])('rejects %j', (password, message) => {
+  expect(checkPassword(password)).toMatchObject({ valid: false, message });
+});
+
+test('rejects the email address or its local part', () => {
+  const context = { email: 'Jane.Doe1@example.com' };
+
+  expect(checkPassword('jane.doe1@example.com', context).rules.find(rule => rule.id === 'email')?.passed).toBe(false);
+  expect(checkPassword('Jane.Doe1', context)).toMatchObject({
+    valid: false,
+    message: 'Password must not be the same as your email',
+    score: 0,
+  });
+});
+
+test('scores weak input without crediting common passwords', () => {
+  expect(checkPassword('').score).toBe(0);
+  expect(checkPassword('abc').label).toBe('Weak');
+  expect(checkPassword('Passw0rd').score).toBe(0);
+});
+
+test('compares with the email field of the same form', async () => {
+  const schema = Yup.object({ email: Yup.string(), password: passwordSchema({ emailField: 'email' }) });
+
+  await expect(schema.validate({ email: 'jane@example.com', password: 'Harbour12' })).resolves.toBeTruthy();
+  await expect(schema.validate({ email: 'harbour12@example.com', password: 'Harbour12' }))
+    .rejects.toThrow('Password must not be the same as your email');
+});
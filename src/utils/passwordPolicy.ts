@@ -0,0 +1,89 @@
+export const PASSWORD_MIN_LENGTH = 8;
+
+const COMMON_PASSWORDS = new Set([
+  '123456', '123456789', '12345678', '1234567890', '1234567', '111111', '000000', '123123', '654321', '666666',
+  'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'qwerty', 'qwerty123',
+  'qwertyuiop', 'abc123', 'abcd1234', 'a1b2c3d4', 'iloveyou', 'admin', 'admin123', 'welcome', 'welcome1',
+  'welcome123', 'letmein', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'superman',
+  'trustno1', 'master', 'shadow', 'starwars', 'whatever', 'zaq12wsx', '1q2w3e4r', '1qaz2wsx', 'changeme',
+  'secret', 'hello123', 'travel', 'travel123', 'wanderlust', 'wanderlust1', 'hotel123',
+]);
+
+export interface PasswordContext {
+  email?: string;
+}
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  message: string;
+  test: (password: string, context: PasswordContext) => boolean;
+}
+
+const isSameAsEmail = (password: string, email?: string) => {
+  if (!email) return false;
+  const normalized = password.trim().toLowerCase();
+  const address = email.trim().toLowerCase();
+  return normalized === address || normalized === address.split('@')[0];
+};
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    id: 'length',
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+    test: password => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: 'lowercase',
+    label: 'A lowercase letter',
+    message: 'Password must include a lowercase letter',
+    test: password => /[a-z]/.test(password),
+  },
+  {
+    id: 'uppercase',
+    label: 'An uppercase letter',
+    message: 'Password must include an uppercase letter',
+    test: password => /[A-Z]/.test(password),
+  },
+  {
+    id: 'number',
+    label: 'A number',
+    message: 'Password must include a number',
+    test: password => /\d/.test(password),
+  },
+  {
+    id: 'common',
+    label: 'Not a commonly used password',
+    message: 'This password is too common, please choose another',
+    test: password => !COMMON_PASSWORDS.has(password.toLowerCase()),
+  },
+  {
+    id: 'email',
+    label: 'Different from your email',
+    message: 'Password must not be the same as your email',
+    test: (password, { email }) => !isSameAsEmail(password, email),
+  },
+];
+
+export const STRENGTH_LABELS = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+export const checkPassword = (password: string, context: PasswordContext = {}) => {
+  const rules = PASSWORD_RULES.map(rule => ({ ...rule, passed: rule.test(password, context) }));
+  const failed = rules.find(rule => !rule.passed);
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  const lengthBonus = (password.length >= 12 ? 1 : 0) + (password.length >= 16 ? 1 : 0);
+
+  let score = 0;
+  if (password && !rules.some(rule => !rule.passed && (rule.id === 'common' || rule.id === 'email'))) {
+    score = password.length < PASSWORD_MIN_LENGTH ? Math.min(classes, 1) : Math.min(4, Math.max(1, classes + lengthBonus - 1));
+  }
+
+  return {
+    rules,
+    valid: !failed,
+    message: failed?.message,
+    score,
+    label: STRENGTH_LABELS[score],
+  };
+};
@@ -0,0 +1,24 @@
+import { canManageHotel, hasPermission } from './permissions';
+
+test('only guests, operators and admins keep favorites', () => {
+  expect(hasPermission({ role: 'user' }, 'favorite:manage')).toBe(true);
+  expect(hasPermission({ role: 'operator' }, 'favorite:manage')).toBe(true);
+  expect(hasPermission({ role: 'admin' }, 'favorite:manage')).toBe(true);
+  expect(hasPermission({ role: 'staff' }, 'favorite:manage')).toBe(false);
+  expect(hasPermission({ role: 'auditor' }, 'favorite:manage')).toBe(false);
+  expect(hasPermission(null, 'favorite:manage')).toBe(false);
+});
+
+test('requires every permission in a list', () => {
+  expect(hasPermission({ role: 'staff' }, ['dashboard:access', 'booking:confirm'])).toBe(true);
+  expect(hasPermission({ role: 'auditor' }, ['dashboard:access', 'booking:confirm'])).toBe(false);
+});
+
+test('lets operators manage only their own hotels', () => {
+  const operator = { id: 2, email: 'operator@example.com', role: 'operator' as const };
+  const admin = { id: 9, email: 'admin@example.com', role: 'admin' as const };
+
+  expect(canManageHotel(operator, { operatorId: 2 })).toBe(true);
+  expect(canManageHotel(operator, { operatorId: 3 })).toBe(false);
+  expect(canManageHotel(admin, { operatorId: 3 })).toBe(true);
+});
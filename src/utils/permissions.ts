@@ -0,0 +1,56 @@
+import { Role, User } from '../types';
+
+export type Permission =
+  | 'favorite:manage'
+  | 'booking:create'
+  | 'dashboard:access'
+  | 'hotel:create'
+  | 'hotel:edit'
+  | 'hotel:delete'
+  | 'hotel:manage:any'
+  | 'booking:view:operator'
+  | 'booking:view:all'
+  | 'booking:confirm'
+  | 'booking:complete'
+  | 'operator:invite'
+  | 'user:manage';
+
+const GUEST_PERMISSIONS: Permission[] = ['favorite:manage', 'booking:create'];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  ...GUEST_PERMISSIONS,
+  'dashboard:access',
+  'hotel:create',
+  'hotel:edit',
+  'hotel:delete',
+  'booking:view:operator',
+  'booking:confirm',
+  'booking:complete',
+  'operator:invite',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: GUEST_PERMISSIONS,
+  operator: OPERATOR_PERMISSIONS,
+  staff: ['dashboard:access', 'booking:view:all', 'booking:confirm', 'booking:complete'],
+  auditor: ['dashboard:access', 'booking:view:all'],
+  admin: [...OPERATOR_PERMISSIONS, 'hotel:manage:any', 'booking:view:all', 'user:manage'],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: 'User',
+  operator: 'Operator',
+  staff: 'Hotel Staff',
+  auditor: 'Auditor',
+  admin: 'Administrator',
+};
+
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission | Permission[]) => {
+  if (!user) return false;
+  const granted = ROLE_PERMISSIONS[user.role] ?? [];
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.every(item => granted.includes(item));
+};
+
+export const canManageHotel = (user: User | null | undefined, hotel: { operatorId?: number | null }) =>
+  hasPermission(user, 'hotel:manage:any') || Boolean(user && hotel.operatorId === user.id);
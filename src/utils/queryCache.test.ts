@@ -0,0 +1,91 @@
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  setQueryData,
+  subscribeQuery,
+} from './queryCache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+afterEach(() => {
+  clearQueryCache();
+});
+
+test('shares one request between concurrent callers', async () => {
+  const fetcher = jest.fn().mockResolvedValue(['Harbour View']);
+
+  const results = await Promise.all([fetchQuery(['hotels'], fetcher), fetchQuery(['hotels'], fetcher)]);
+
+  expect(fetcher).toHaveBeenCalledTimes(1);
+  expect(results).toEqual([['Harbour View'], ['Harbour View']]);
+  expect(getQueryState(['hotels'])).toMatchObject({ status: 'success', isFetching: false });
+});
+
+test('serves fresh data from the cache and refetches once it is stale', async () => {
+  const fetcher = jest.fn().mockResolvedValue(1);
+
+  await fetchQuery(['profile'], fetcher, { staleTime: 60000 });
+  await fetchQuery(['profile'], fetcher, { staleTime: 60000 });
+  expect(fetcher).toHaveBeenCalledTimes(1);
+
+  const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60001);
+  await fetchQuery(['profile'], fetcher, { staleTime: 60000 });
+  now.mockRestore();
+  expect(fetcher).toHaveBeenCalledTimes(2);
+});
+
+test('refetches watched queries matching an invalidated prefix', async () => {
+  const hotel = jest.fn().mockResolvedValue('hotel');
+  const bookings = jest.fn().mockResolvedValue('bookings');
+  await fetchQuery(['hotels', 1], hotel);
+  await fetchQuery(['bookings'], bookings);
+  const unsubscribe = subscribeQuery(['hotels', 1], () => undefined);
+
+  invalidateQueries(['hotels']);
+
+  expect(hotel).toHaveBeenCalledTimes(2);
+  expect(bookings).toHaveBeenCalledTimes(1);
+  unsubscribe();
+});
+
+test('keeps data written while a fetch is in flight', async () => {
+  const request = deferred<string[]>();
+  const pending = fetchQuery(['favorites'], () => request.promise);
+
+  setQueryData(['favorites'], ['Harbour View']);
+  request.resolve([]);
+  await pending;
+
+  expect(getQueryState(['favorites'])).toMatchObject({ data: ['Harbour View'], isFetching: false });
+});
+
+test('starts a new request after data was written over an in-flight fetch', async () => {
+  const request = deferred<number>();
+  fetchQuery(['count'], () => request.promise);
+  setQueryData(['count'], 1);
+
+  const fetcher = jest.fn().mockResolvedValue(2);
+  await fetchQuery(['count'], fetcher, { force: true });
+
+  expect(fetcher).toHaveBeenCalledTimes(1);
+  expect(getQueryState(['count']).data).toBe(2);
+});
+
+test('ignores results of fetches started before the cache was cleared', async () => {
+  const request = deferred<string>();
+  const pending = fetchQuery(['profile'], () => request.promise);
+
+  clearQueryCache();
+  request.resolve('previous user');
+  await pending;
+
+  expect(getQueryState(['profile']).data).toBeUndefined();
+});
@@ -0,0 +1,174 @@
+export type QueryKey = readonly unknown[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  status: QueryStatus;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number;
+  force?: boolean;
+}
+
+type Listener = () => void;
+
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<Listener>;
+  staleTime: number;
+  invalidated: boolean;
+  fetchId: number;
+  promise?: Promise<unknown>;
+  fetcher?: () => Promise<unknown>;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const INITIAL_STATE: QueryState<never> = { status: 'idle', isFetching: false, updatedAt: 0 };
+
+const entries = new Map<string, CacheEntry>();
+
+export const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      state: INITIAL_STATE,
+      listeners: new Set(),
+      staleTime: DEFAULT_STALE_TIME,
+      invalidated: false,
+      fetchId: 0,
+    };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: CacheEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+};
+
+const isStale = (entry: CacheEntry) =>
+  entry.invalidated || Date.now() - entry.state.updatedAt > entry.staleTime;
+
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, force = false }: FetchQueryOptions = {}
+): Promise<T> => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  entry.staleTime = staleTime;
+
+  if (entry.promise && !force) {
+    return entry.promise as Promise<T>;
+  }
+  if (!force && entry.state.status === 'success' && !isStale(entry)) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  const fetchId = ++entry.fetchId;
+  entry.invalidated = false;
+  setState(entry, {
+    isFetching: true,
+    status: entry.state.status === 'success' ? 'success' : 'loading',
+  });
+
+  const promise = fetcher().then(
+    data => {
+      if (entry.fetchId === fetchId) {
+        entry.promise = undefined;
+        setState(entry, { data, error: undefined, status: 'success', isFetching: false, updatedAt: Date.now() });
+      }
+      return data;
+    },
+    error => {
+      if (entry.fetchId === fetchId) {
+        entry.promise = undefined;
+        setState(entry, { error, status: 'error', isFetching: false });
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  return promise;
+};
+
+const refetchEntry = (entry: CacheEntry) => {
+  if (entry.fetcher) {
+    fetchQuery(entry.key, entry.fetcher, { staleTime: entry.staleTime, force: true }).catch(() => undefined);
+  }
+};
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> =>
+  (entries.get(hashKey(key))?.state ?? INITIAL_STATE) as QueryState<T>;
+
+export const getQueryData = <T>(key: QueryKey) => getQueryState<T>(key).data;
+
+export const setQueryData = <T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) => {
+  const entry = getEntry(key);
+  const data = typeof updater === 'function'
+    ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+    : updater;
+  // Written data is newer than whatever a fetch already in flight will return, so that fetch is dropped.
+  entry.fetchId += 1;
+  entry.promise = undefined;
+  setState(entry, { data, status: 'success', error: undefined, isFetching: false, updatedAt: Date.now() });
+};
+
+export const subscribeQuery = (key: QueryKey, listener: Listener) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach(entry => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    entry.invalidated = true;
+    if (entry.listeners.size > 0) {
+      refetchEntry(entry);
+    }
+  });
+};
+
+export const clearQueryCache = () => {
+  entries.forEach((entry, hash) => {
+    entry.fetchId += 1;
+    entry.promise = undefined;
+    if (entry.listeners.size > 0) {
+      setState(entry, INITIAL_STATE);
+      refetchEntry(entry);
+    } else {
+      entries.delete(hash);
+    }
+  });
+};
+
+const revalidateActiveQueries = () => {
+  entries.forEach(entry => {
+    if (entry.listeners.size > 0 && isStale(entry) && !entry.promise) {
+      refetchEntry(entry);
+    }
+  });
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('focus', revalidateActiveQueries);
+  window.addEventListener('online', revalidateActiveQueries);
+}
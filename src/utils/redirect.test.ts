@@ -0,0 +1,36 @@
+import { User } from '../types';
+import { buildLoginRedirectState, readLoginRedirectState, resolvePostLoginRedirect } from './redirect';
+
+const guest: User = { id: 1, email: 'guest@example.com', role: 'user' };
+const operator: User = { id: 2, email: 'operator@example.com', role: 'operator' };
+
+test('returns to the page that required a login', () => {
+  const state = buildLoginRedirectState({ pathname: '/hotels/3', search: '?guests=2', hash: '#rooms' });
+
+  expect(resolvePostLoginRedirect(state, guest)).toEqual({ to: '/hotels/3?guests=2#rooms', state: {} });
+});
+
+test('carries the pending action to the target page', () => {
+  const state = buildLoginRedirectState({ pathname: '/hotels/3' }, { pendingAction: 'openBookingDialog' });
+
+  expect(resolvePostLoginRedirect(state, guest).state).toEqual({ pendingAction: 'openBookingDialog' });
+});
+
+test.each([
+  'https://evil.example/phish',
+  '//evil.example/phish',
+  '/\\evil.example/phish',
+  '/\t/evil.example',
+  'mailto:support@example.com',
+  '/login',
+  '/login?next=/operator',
+  '/register/invite',
+])('falls back to the home page for %j', from => {
+  expect(resolvePostLoginRedirect({ from }, guest).to).toBe('/');
+  expect(resolvePostLoginRedirect({ from }, operator).to).toBe('/operator');
+});
+
+test('ignores router state that is not an object', () => {
+  expect(readLoginRedirectState(null)).toEqual({});
+  expect(readLoginRedirectState('/operator')).toEqual({});
+});
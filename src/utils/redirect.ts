@@ -0,0 +1,48 @@
+import { LoginRedirectState, PendingAction, RedirectTargetState, User } from '../types';
+import { hasPermission } from './permissions';
+
+interface LocationLike {
+  pathname: string;
+  search?: string;
+  hash?: string;
+}
+
+const AUTH_PATHS = ['/login', '/register'];
+
+// Browsers read `/\host` and paths with stripped whitespace like `//host`, so the path is resolved
+// against this origin rather than pattern-matched.
+const isSameOrigin = (path: string) => {
+  try {
+    return new URL(path, window.location.origin).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+const isSafeRedirect = (path: unknown): path is string =>
+  typeof path === 'string' &&
+  path.startsWith('/') &&
+  !path.startsWith('//') &&
+  isSameOrigin(path) &&
+  !AUTH_PATHS.some(authPath => path === authPath || path.startsWith(`${authPath}?`) || path.startsWith(`${authPath}/`));
+
+export const buildLoginRedirectState = (
+  location: LocationLike,
+  options: { pendingAction?: PendingAction; reason?: LoginRedirectState['reason'] } = {}
+): LoginRedirectState => ({
+  from: `${location.pathname}${location.search || ''}${location.hash || ''}`,
+  ...options,
+});
+
+export const readLoginRedirectState = (state: unknown): LoginRedirectState =>
+  state && typeof state === 'object' ? (state as LoginRedirectState) : {};
+
+export const defaultPathFor = (user: User) => (hasPermission(user, 'dashboard:access') ? '/operator' : '/');
+
+export const resolvePostLoginRedirect = (state: LoginRedirectState, user: User) => {
+  const targetState: RedirectTargetState = state.pendingAction ? { pendingAction: state.pendingAction } : {};
+  return {
+    to: isSafeRedirect(state.from) ? state.from : defaultPathFor(user),
+    state: targetState,
+  };
+};
@@ -0,0 +1,31 @@
+interface TokenPayload {
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return decodeURIComponent(
+    atob(padded)
+      .split('')
+      .map(char => '%' + ('00' + char.charCodeAt(0).toString(16)).slice(-2))
+      .join('')
+  );
+};
+
+export const decodeToken = (token: string): TokenPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    return JSON.parse(decodeBase64Url(parts[1]));
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string, skewSeconds = 10) => {
+  const payload = decodeToken(token);
+  if (!payload || typeof payload.exp !== 'number') return false;
+  return payload.exp * 1000 <= Date.now() + skewSeconds * 1000;
+};
@@ -0,0 +1,22 @@
+const ACCESS_TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export const tokenStorage = {
+  getAccessToken: () => localStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  setTokens: (accessToken: string, refreshToken?: string | null) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  },
+
+  isTokenKey: (key: string) => key === ACCESS_TOKEN_KEY || key === REFRESH_TOKEN_KEY,
+
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+};
@@ -0,0 +1,25 @@
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const findLabel = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+export const describeUserAgent = (userAgent: string) => {
+  const browser = findLabel(userAgent, BROWSERS);
+  const platform = findLabel(userAgent, PLATFORMS);
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
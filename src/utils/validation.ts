@@ -0,0 +1,19 @@
+import * as Yup from 'yup';
+import { checkPassword } from './passwordPolicy';
+
+interface PasswordSchemaOptions {
+  email?: string;
+  emailField?: string;
+}
+
+export const passwordSchema = ({ email, emailField }: PasswordSchemaOptions = {}) =>
+  Yup.string().test('password-policy', function (value) {
+    if (!value) return true;
+    const result = checkPassword(value, { email: emailField ? this.parent[emailField] : email });
+    return result.valid || this.createError({ message: result.message });
+  });
+
+export const confirmPasswordSchema = (field: string, message = 'Please confirm your password') =>
+  Yup.string()
+    .oneOf([Yup.ref(field)], 'Passwords do not match')
+    .required(message);